@@ -0,0 +1,221 @@
+/**
+ * Cached request body parsing
+ * @module body
+ */
+
+import { HttpError } from '@whi/http-errors';
+import { IRequest } from 'itty-router';
+import { MultipartOptions, MultipartPart, parseMultipart } from './multipart.js';
+
+/**
+ * Body helpers shared by Context and DurableObjectContext.
+ *
+ * The body is read once, from a clone of the request, so middleware can peek at it and
+ * `ctx.request` stays readable. Results are cached, so every call returns the same value.
+ *
+ * @category Types
+ */
+export interface BodyReader {
+    /**
+     * Parse the body by its Content-Type: JSON as its value, urlencoded and multipart forms as
+     * `FormData`, `text/*` as a string. Resolves to undefined for requests without a body.
+     * Throws `HttpError(400)` on malformed input and `HttpError(415)` on other types.
+     */
+    body(): Promise<unknown>;
+
+    /**
+     * Parse a JSON body (`application/json` or `+json`). Throws `HttpError(400)` on malformed
+     * JSON and `HttpError(415)` on other types.
+     */
+    json<T = any>(): Promise<T>;
+
+    /**
+     * Parse a urlencoded or multipart form body. Throws `HttpError(400)` on malformed input
+     * and `HttpError(415)` on other types.
+     */
+    form(): Promise<FormData>;
+
+    /** Read the body as text, whatever its Content-Type */
+    text(): Promise<string>;
+
+    /**
+     * Stream the parts of a multipart/form-data body as they arrive, instead of buffering it
+     * like `form()`. Consumes `ctx.request`'s body, so it can't be combined with the other
+     * helpers. Throws `HttpError(400)` on malformed input, `HttpError(413)` for files over
+     * `maxFileSize` and `HttpError(415)` on other types.
+     */
+    multipart(options?: MultipartOptions): AsyncIterable<MultipartPart>;
+}
+
+/**
+ * Kinds of body the helpers parse
+ */
+type BodyKind = 'json' | 'form' | 'text';
+
+/**
+ * Get the lowercase media type of a Content-Type header, without parameters
+ */
+function getMediaType(contentType: string | null): string {
+    return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Get the kind of body a media type holds, or undefined for unsupported types
+ */
+function getBodyKind(mediaType: string): BodyKind | undefined {
+    if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+        return 'json';
+    }
+    if (mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data') {
+        return 'form';
+    }
+    if (mediaType.startsWith('text/')) {
+        return 'text';
+    }
+    return undefined;
+}
+
+/**
+ * Error for a body whose Content-Type the called helper doesn't support
+ */
+function unsupportedMediaType(mediaType: string): HttpError {
+    return new HttpError(
+        415,
+        mediaType ? `Unsupported Content-Type '${mediaType}'` : 'Missing Content-Type'
+    );
+}
+
+/**
+ * Cache the result of an async function, so it runs at most once
+ */
+function once<T>(fn: () => Promise<T>): () => Promise<T> {
+    let result: Promise<T> | undefined;
+    return () => (result ??= fn());
+}
+
+/**
+ * Create the cached body helpers of a request.
+ *
+ * @param request - Incoming request
+ * @returns Body helpers reading the request's body once
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const auditMiddleware: Middleware<Env> = async (ctx, next) => {
+ *     const { action } = await ctx.json<{ action: string }>();
+ *     ctx.log.info('Action requested', { action });
+ *     return next(); // the handler can still call ctx.json()
+ * };
+ * ```
+ */
+export function createBodyReader(request: Request): BodyReader {
+    const mediaType = getMediaType(request.headers.get('Content-Type'));
+    const kind = getBodyKind(mediaType);
+
+    const buffer = once(() => request.clone().arrayBuffer());
+    const text = once(async () => new TextDecoder().decode(await buffer()));
+
+    const json = once(async () => {
+        if (kind !== 'json') {
+            throw unsupportedMediaType(mediaType);
+        }
+        const source = await text();
+        try {
+            return JSON.parse(source);
+        } catch {
+            throw new HttpError(400, 'Malformed JSON body');
+        }
+    });
+
+    const form = once(async () => {
+        if (kind !== 'form') {
+            throw unsupportedMediaType(mediaType);
+        }
+        const source = new Response(await buffer(), {
+            headers: { 'Content-Type': request.headers.get('Content-Type')! },
+        });
+        try {
+            return await source.formData();
+        } catch {
+            throw new HttpError(400, 'Malformed form body');
+        }
+    });
+
+    const body = once(async (): Promise<unknown> => {
+        if (request.body === null) {
+            return undefined;
+        }
+        if (mediaType === '' && (await buffer()).byteLength === 0) {
+            return undefined;
+        }
+        if (kind === 'json') return json();
+        if (kind === 'form') return form();
+        if (kind === 'text') return text();
+        throw unsupportedMediaType(mediaType);
+    });
+
+    const multipart = (options?: MultipartOptions) => parseMultipart(request, options);
+
+    return { body, json, form, text, multipart };
+}
+
+/**
+ * Error for a body larger than the size limit
+ */
+function payloadTooLarge(maxBodySize: number): HttpError {
+    return new HttpError(413, 'Payload Too Large', { maxBodySize });
+}
+
+/**
+ * Check a request's Content-Length header against a body size limit.
+ *
+ * @param request - Incoming request
+ * @param maxBodySize - Maximum body size in bytes
+ * @throws HttpError(413) when the declared length exceeds the limit
+ *
+ * @category Utilities
+ */
+export function checkContentLength(request: Request, maxBodySize: number): void {
+    const length = Number(request.headers.get('Content-Length'));
+    if (length > maxBodySize) {
+        throw payloadTooLarge(maxBodySize);
+    }
+}
+
+/**
+ * Limit the size of a request's body while it streams, for bodies without (or with a false)
+ * Content-Length. Reading more than the limit fails with `HttpError(413)`.
+ *
+ * @param request - Incoming request
+ * @param maxBodySize - Maximum body size in bytes
+ * @returns The request with a size-limited body (the request itself if it has no body),
+ *   keeping the params, query and route itty-router added to it
+ *
+ * @category Utilities
+ */
+export function limitBodySize(request: Request, maxBodySize: number): Request {
+    if (request.body === null) {
+        return request;
+    }
+
+    let size = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            size += chunk.byteLength;
+            if (size > maxBodySize) {
+                controller.error(payloadTooLarge(maxBodySize));
+            } else {
+                controller.enqueue(chunk);
+            }
+        },
+    });
+    // duplex is required for stream bodies outside Workers, and isn't in RequestInit there
+    const limited = new Request(request, {
+        body: request.body.pipeThrough(counter),
+        duplex: 'half',
+    } as RequestInit);
+    const { params, query, route } = request as Partial<IRequest>;
+    return Object.assign(limited, { params, query, route });
+}
@@ -1,5 +1,8 @@
 import { ResponseContext } from './response-context.js';
 import { Logger } from './logger.js';
+import { UrlBuilder } from './path.js';
+import { TraceContext } from './trace.js';
+import { BodyReader } from './body.js';
 
 /**
  * Route parameters extracted from URL path
@@ -7,6 +10,13 @@ import { Logger } from './logger.js';
  */
 export type Params = Record<string, string>;
 
+/**
+ * Route parameter values, including params coerced by their param type
+ * (e.g. `:id<int>` is a number)
+ * @category Types
+ */
+export type ParamValues = Record<string, string | number>;
+
 /**
  * Base environment interface for Cloudflare Workers
  * @category Types
@@ -16,11 +26,19 @@ export interface Env {
     LOG_LEVEL: string;
 }
 
+/**
+ * Task scheduled with `ctx.after()` to run after the response is sent
+ * @category Types
+ */
+export type AfterTask = () => unknown;
+
 /**
  * Context object passed to all middleware and route handlers.
  *
  * Provides access to the request, environment, route parameters,
  * shared data for middleware communication, and response customization.
+ * The body helpers (`ctx.body()`, `ctx.json()`, `ctx.form()`, `ctx.text()`) parse the
+ * request body once and cache the result.
  *
  * @typeParam E - Environment type extending base Env interface
  * @typeParam P - Route parameters type
@@ -45,7 +63,7 @@ export interface Env {
  * }
  * ```
  */
-export interface Context<E = Env, P = Params, D = Record<string, any>> {
+export interface Context<E = Env, P = Params, D = Record<string, any>> extends BodyReader {
     /** Original incoming request */
     request: Request;
 
@@ -66,6 +84,33 @@ export interface Context<E = Env, P = Params, D = Record<string, any>> {
 
     /** Logger instance */
     log: Logger;
+
+    /**
+     * Build the path of a named route (e.g., `ctx.url('user', { id: 42 })`).
+     * Throws for unknown route names and missing params.
+     */
+    url: UrlBuilder;
+
+    /**
+     * Request ID: the `X-Request-Id` header, the traceparent trace ID or `cf-ray`, else a
+     * new UUID. Echoed in the `X-Request-Id` response header and included in error bodies.
+     */
+    requestId: string;
+
+    /** W3C trace context; forward it to other services with `traceHeaders(ctx)` */
+    trace: TraceContext;
+
+    /**
+     * Worker execution context (`waitUntil`, `passThroughOnException`); undefined when the
+     * router is called without one (e.g. in tests)
+     */
+    executionContext?: ExecutionContext;
+
+    /**
+     * Schedule a task to run after the response is sent (e.g. analytics or cache writes),
+     * kept alive with `waitUntil`. Tasks run in order; their errors are logged.
+     */
+    after(task: AfterTask): void;
 }
 
 /**
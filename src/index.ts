@@ -20,9 +20,15 @@
 
 /// <reference types="@cloudflare/workers-types" />
 
+export * from './body.js';
 export * from './context.js';
 export * from './cors.js';
 export * from './logger.js';
+export * from './multipart.js';
+export * from './path.js';
 export * from './router.js';
+export * from './schema.js';
+export * from './serializers.js';
+export * from './trace.js';
 export * from './response-context.js';
 export { HttpError } from '@whi/http-errors';
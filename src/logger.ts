@@ -29,12 +29,24 @@ const LOG_LEVELS: Record<LogLevel, number> = {
 export class Logger {
     private name: string;
     private level: number;
+    private bindings: Record<string, unknown> = {};
 
     constructor(name: string, level: LogLevel = 'info') {
         this.name = name;
         this.level = LOG_LEVELS[level] ?? LOG_LEVELS.info;
     }
 
+    /**
+     * Create a logger with the same name and level that adds the given fields to the data
+     * of every line (e.g. `{ requestId }`).
+     */
+    child(bindings: Record<string, unknown>): Logger {
+        const child = new Logger(this.name);
+        child.level = this.level;
+        child.bindings = { ...this.bindings, ...bindings };
+        return child;
+    }
+
     setLevel(level: LogLevel | string): void {
         const normalized = (level?.toLowerCase() || 'info') as LogLevel;
         this.level = LOG_LEVELS[normalized] ?? LOG_LEVELS.info;
@@ -44,9 +56,17 @@ export class Logger {
         return LOG_LEVELS[messageLevel] >= this.level;
     }
 
+    /**
+     * Check whether messages at a level are logged, e.g. to skip building costly log data.
+     */
+    isLevelEnabled(level: LogLevel): boolean {
+        return this.shouldLog(level);
+    }
+
     private formatData(data?: Record<string, unknown>): string {
-        if (!data || Object.keys(data).length === 0) return '';
-        return ' ' + JSON.stringify(data);
+        const merged = { ...this.bindings, ...data };
+        if (Object.keys(merged).length === 0) return '';
+        return ' ' + JSON.stringify(merged);
     }
 
     trace(message: string, data?: Record<string, unknown>): void {
@@ -0,0 +1,407 @@
+/**
+ * Streaming multipart/form-data parsing
+ * @module multipart
+ */
+
+import { HttpError } from '@whi/http-errors';
+
+/**
+ * Options for parsing a multipart body
+ *
+ * @category Types
+ */
+export interface MultipartOptions {
+    /**
+     * Maximum size of each file part in bytes (default: no limit). Reading a larger file
+     * fails with `HttpError(413)`.
+     */
+    maxFileSize?: number;
+}
+
+/**
+ * One part of a multipart/form-data body, streamed as it arrives
+ *
+ * @category Types
+ */
+export interface MultipartPart {
+    /** Field name from the part's Content-Disposition */
+    name: string;
+    /** File name from the part's Content-Disposition, for file parts */
+    filename?: string;
+    /** Content-Type of the part ('text/plain' when absent) */
+    contentType: string;
+    /**
+     * Headers of the part, keyed by lowercase name. A plain object rather than `Headers`,
+     * since part headers (e.g. file names) aren't limited to Latin-1.
+     */
+    headers: Record<string, string>;
+    /**
+     * Body of the part. Read it before moving on to the next part, which skips any of it
+     * left unread.
+     */
+    body: ReadableStream<Uint8Array>;
+    /** Read the body as text */
+    text(): Promise<string>;
+    /** Read the body as bytes */
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Maximum size of a part's headers
+ */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+const CRLF = new Uint8Array([13, 10]);
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+const DASH = 45;
+
+/**
+ * Error for a body that isn't valid multipart/form-data
+ */
+function malformed(reason: string): HttpError {
+    return new HttpError(400, 'Malformed multipart body', { reason });
+}
+
+/**
+ * Find the first index of a byte sequence, or -1
+ */
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+    const last = haystack.length - needle.length;
+    for (let i = haystack.indexOf(needle[0], from); i !== -1 && i <= last; ) {
+        let j = 1;
+        while (j < needle.length && haystack[i + j] === needle[j]) j++;
+        if (j === needle.length) {
+            return i;
+        }
+        i = haystack.indexOf(needle[0], i + 1);
+    }
+    return -1;
+}
+
+/**
+ * Join byte arrays of a known total length
+ */
+function join(chunks: Uint8Array[], length: number): Uint8Array {
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+    const joined = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return joined;
+}
+
+/**
+ * Get the boundary parameter of a multipart/form-data Content-Type
+ */
+function getBoundary(contentType: string | null): string {
+    const [mediaType, ...params] = (contentType ?? '').split(';');
+    const type = mediaType.trim().toLowerCase();
+    if (type !== 'multipart/form-data') {
+        throw new HttpError(
+            415,
+            type ? `Unsupported Content-Type '${type}'` : 'Missing Content-Type'
+        );
+    }
+
+    for (const param of params) {
+        const [key, ...value] = param.split('=');
+        if (key.trim().toLowerCase() === 'boundary') {
+            const boundary = value
+                .join('=')
+                .trim()
+                .replace(/^"(.*)"$/, '$1');
+            if (boundary) {
+                return boundary;
+            }
+        }
+    }
+    throw malformed('Missing boundary');
+}
+
+/**
+ * Parse the parameters of a Content-Disposition header (e.g. `form-data; name="file"`)
+ */
+function parseDisposition(header: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    const param = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+    for (const match of header.matchAll(param)) {
+        params[match[1].toLowerCase()] = match[2]?.replace(/\\(.)/g, '$1') ?? match[3].trim();
+    }
+    return params;
+}
+
+/**
+ * Parse the header block of a part
+ */
+function parseHeaders(block: Uint8Array): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const lines = new TextDecoder().decode(block).split('\r\n');
+    for (const line of lines) {
+        if (line === '') continue;
+        const colon = line.indexOf(':');
+        if (colon <= 0) {
+            throw malformed('Invalid part header');
+        }
+        const name = line.slice(0, colon).trim().toLowerCase();
+        const value = line.slice(colon + 1).trim();
+        headers[name] = name in headers ? `${headers[name]}, ${value}` : value;
+    }
+    return headers;
+}
+
+/**
+ * Parse a multipart/form-data request body as a stream of parts, without buffering it.
+ *
+ * Consumes the request body. Throws `HttpError(415)` for other content types,
+ * `HttpError(400)` for malformed bodies and `HttpError(413)` for files over `maxFileSize`.
+ *
+ * @param request - Incoming request
+ * @param options - Parsing options
+ * @returns The parts of the body, in order
+ *
+ * @category Utilities
+ */
+export async function* parseMultipart(
+    request: Request,
+    options?: MultipartOptions
+): AsyncGenerator<MultipartPart, void, undefined> {
+    const boundary = getBoundary(request.headers.get('Content-Type'));
+    if (request.body === null) {
+        throw malformed('Missing body');
+    }
+
+    const delimiter = new TextEncoder().encode(`\r\n--${boundary}`);
+    const reader = request.body.getReader();
+    // Unread bytes, always ending at `end` of `store`. Reads are appended to the spare
+    // room of `store`, which doubles when full, so filling the buffer is linear overall.
+    // Bytes before the buffer are never overwritten, as chunks of part bodies view them.
+    // Starts with a line break, so the first delimiter matches like the others.
+    let store = CRLF.slice();
+    let end = store.length;
+    let buffer = store.subarray(0, end);
+    let failure: unknown;
+
+    const fill = async (): Promise<void> => {
+        const { done, value } = await reader.read();
+        if (done) {
+            throw malformed('Unexpected end of body');
+        }
+        const length = buffer.length + value.length;
+        if (end + value.length > store.length) {
+            const grown = new Uint8Array(2 * length);
+            grown.set(buffer);
+            store = grown;
+            end = buffer.length;
+        }
+        store.set(value, end);
+        end += value.length;
+        buffer = store.subarray(end - length, end);
+    };
+
+    // Cancel and release the body however iteration ends, including a `break` out of
+    // `for await`, so the request isn't left locked
+    try {
+        // Skip the preamble
+        let start: number;
+        while ((start = indexOf(buffer, delimiter)) === -1) {
+            buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+            await fill();
+        }
+        buffer = buffer.subarray(start + delimiter.length);
+
+        for (;;) {
+            // A delimiter is followed by '--' after the last part, or padding and a line break
+            while (buffer.length < 2) await fill();
+            if (buffer[0] === DASH && buffer[1] === DASH) {
+                return;
+            }
+            let lineEnd: number;
+            while ((lineEnd = indexOf(buffer, CRLF)) === -1) await fill();
+            buffer = buffer.subarray(lineEnd);
+
+            let headersEnd: number;
+            while ((headersEnd = indexOf(buffer, HEADER_END)) === -1) {
+                if (buffer.length > MAX_HEADER_SIZE) {
+                    throw malformed('Part headers too large');
+                }
+                await fill();
+            }
+            const headers = parseHeaders(buffer.subarray(2, headersEnd));
+            buffer = buffer.subarray(headersEnd + HEADER_END.length);
+
+            const disposition = parseDisposition(headers['content-disposition'] ?? '');
+            if (disposition.name === undefined) {
+                throw malformed('Part without a field name');
+            }
+            const filename = disposition.filename;
+            const maxSize = filename === undefined ? undefined : options?.maxFileSize;
+
+            let ended = false;
+            let size = 0;
+            // Next chunk of the part's body, holding back bytes that could start the delimiter
+            const nextChunk = async (): Promise<Uint8Array> => {
+                for (;;) {
+                    const index = indexOf(buffer, delimiter);
+                    if (index !== -1) {
+                        const chunk = buffer.subarray(0, index);
+                        buffer = buffer.subarray(index + delimiter.length);
+                        ended = true;
+                        return chunk;
+                    }
+                    const safe = buffer.length - delimiter.length + 1;
+                    if (safe > 0) {
+                        const chunk = buffer.subarray(0, safe);
+                        buffer = buffer.subarray(safe);
+                        return chunk;
+                    }
+                    await fill();
+                }
+            };
+
+            // Pulls only when read, so parts are read one at a time from the shared buffer
+            const body = new ReadableStream<Uint8Array>(
+                {
+                    async pull(controller) {
+                        try {
+                            const chunk = await nextChunk();
+                            size += chunk.length;
+                            if (maxSize !== undefined && size > maxSize) {
+                                throw new HttpError(413, 'File Too Large', {
+                                    field: disposition.name,
+                                    maxFileSize: maxSize,
+                                });
+                            }
+                            if (chunk.length > 0) controller.enqueue(chunk);
+                            if (ended) controller.close();
+                        } catch (error) {
+                            failure = error;
+                            controller.error(error);
+                        }
+                    },
+                },
+                { highWaterMark: 0 }
+            );
+
+            yield {
+                name: disposition.name,
+                filename,
+                contentType: headers['content-type'] ?? 'text/plain',
+                headers,
+                body,
+                text: () => new Response(body).text(),
+                arrayBuffer: () => new Response(body).arrayBuffer(),
+            };
+
+            if (failure !== undefined) {
+                throw failure;
+            }
+            while (!ended) await nextChunk();
+        }
+    } finally {
+        await reader.cancel().catch(() => undefined);
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Size of R2 multipart upload parts; R2 requires at least 5 MiB for all but the last
+ */
+const R2_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Read exactly `size` bytes from a stream, or fewer at its end
+ */
+async function readBytes(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    size: number,
+    carry: { bytes: Uint8Array }
+): Promise<{ bytes: Uint8Array; done: boolean }> {
+    const chunks = [carry.bytes];
+    let length = carry.bytes.length;
+    while (length < size) {
+        const { done, value } = await reader.read();
+        if (done) {
+            carry.bytes = new Uint8Array(0);
+            return { bytes: join(chunks, length), done: true };
+        }
+        chunks.push(value);
+        length += value.length;
+    }
+    const bytes = join(chunks, length);
+    carry.bytes = bytes.subarray(size);
+    return { bytes: bytes.subarray(0, size), done: false };
+}
+
+/**
+ * Store a multipart part in an R2 bucket, streaming it in 5 MiB pieces.
+ *
+ * R2 needs the length of a stream up front, so parts up to 5 MiB are stored with one
+ * `put()`, and larger ones with a multipart upload, which is aborted if reading the part
+ * fails (e.g. over `maxFileSize`). The part's Content-Type is stored unless options set
+ * `httpMetadata`.
+ *
+ * @param bucket - R2 bucket binding
+ * @param key - Object key
+ * @param part - Part to store, with its body unread
+ * @param options - Metadata for the object
+ * @returns The stored object
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * async post(ctx: Context<Env>) {
+ *   for await (const part of ctx.multipart({ maxFileSize: 50 * 1024 * 1024 })) {
+ *     if (part.filename) {
+ *       const object = await putPartToR2(ctx.env.UPLOADS, crypto.randomUUID(), part);
+ *       return { key: object.key, size: object.size };
+ *     }
+ *   }
+ *   throw new HttpError(400, 'No file uploaded');
+ * }
+ * ```
+ */
+export async function putPartToR2(
+    bucket: R2Bucket,
+    key: string,
+    part: MultipartPart,
+    options?: R2MultipartOptions
+): Promise<R2Object> {
+    const objectOptions: R2MultipartOptions = {
+        ...options,
+        httpMetadata: options?.httpMetadata ?? { contentType: part.contentType },
+    };
+    const reader = part.body.getReader();
+    const carry = { bytes: new Uint8Array(0) };
+
+    let piece = await readBytes(reader, R2_PART_SIZE, carry);
+    if (piece.done) {
+        return bucket.put(key, piece.bytes, objectOptions);
+    }
+
+    const upload = await bucket.createMultipartUpload(key, objectOptions);
+    try {
+        const uploaded: R2UploadedPart[] = [];
+        for (;;) {
+            uploaded.push(await upload.uploadPart(uploaded.length + 1, piece.bytes));
+            piece = await readBytes(reader, R2_PART_SIZE, carry);
+            if (piece.done && piece.bytes.length === 0) break;
+            if (piece.done) {
+                uploaded.push(await upload.uploadPart(uploaded.length + 1, piece.bytes));
+                break;
+            }
+        }
+        return await upload.complete(uploaded);
+    } catch (error) {
+        // Stop reading the part before giving up on the upload; cancelling a part that
+        // already failed rejects with its error, which is rethrown below
+        await reader.cancel().catch(() => undefined);
+        reader.releaseLock();
+        await upload.abort();
+        throw error;
+    }
+}
@@ -0,0 +1,320 @@
+/**
+ * Route path utilities
+ * @module path
+ */
+
+import { Params } from './context.js';
+
+/**
+ * Extract the leading param token from the remainder of a path after a ':'.
+ * Stops at the next segment or extension separator.
+ */
+type ParamTokenOf<S extends string> = S extends `${infer Token}/${string}`
+    ? ParamTokenOf<Token>
+    : S extends `${infer Token}.${string}`
+      ? ParamTokenOf<Token>
+      : S;
+
+/**
+ * Param tokens in a route path (e.g. 'id<int>?'), with type, pattern and modifiers.
+ */
+type ParamTokens<Path extends string> = Path extends `${string}:${infer Rest}`
+    ? ParamTokenOf<Rest> | ParamTokens<Rest>
+    : never;
+
+/**
+ * Param name of a token, without its type, pattern or modifiers.
+ */
+type ParamNameOf<Token extends string> = Token extends `${infer Name}<${string}`
+    ? Name
+    : Token extends `${infer Name}(${string}`
+      ? Name
+      : Token extends `${infer Name}+`
+        ? Name
+        : Token extends `${infer Name}?`
+          ? Name
+          : Token;
+
+/**
+ * Param value type of a token: typed params with a numeric type are coerced to numbers.
+ */
+type ParamValueOf<Token extends string> = Token extends `${string}<int>${string}` ? number : string;
+
+/**
+ * Union of the param names declared in a route path.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * type Names = RouteParamNames<'/users/:id/posts/:postId'>; // 'id' | 'postId'
+ * ```
+ */
+export type RouteParamNames<Path extends string> =
+    ParamTokens<Path> extends infer Token
+        ? Token extends string
+            ? ParamNameOf<Token>
+            : never
+        : never;
+
+/**
+ * Route parameters type inferred from a route path.
+ *
+ * Params ending in `?` are optional, and `<int>` params are numbers. A non-literal `string`
+ * path resolves to {@link Params}.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * type PostParams = RouteParams<'/users/:id/posts/:postId'>; // { id: string; postId: string }
+ *
+ * class PostHandler extends RouteHandler<Env, PostParams> {
+ *   async get(ctx: Context<Env, PostParams>) {
+ *     return { userId: ctx.params.id, postId: ctx.params.postId };
+ *   }
+ * }
+ * ```
+ */
+export type RouteParams<Path extends string> = string extends Path
+    ? Params
+    : {
+          [T in ParamTokens<Path> as T extends `${string}?`
+              ? never
+              : ParamNameOf<T>]: ParamValueOf<T>;
+      } & {
+          [T in ParamTokens<Path> as T extends `${string}?`
+              ? ParamNameOf<T>
+              : never]?: ParamValueOf<T>;
+      };
+
+/**
+ * Compile-time check that a handler's params are all declared in the route path.
+ *
+ * Resolves to `unknown` when they are (or when either side is untyped), otherwise to an
+ * object type naming the missing params, so passing the handler class fails to compile.
+ *
+ * @category Types
+ */
+export type CheckRouteParams<Path extends string, P> = string extends Path
+    ? unknown
+    : string extends keyof P
+      ? unknown
+      : [Exclude<keyof P, RouteParamNames<Path>>] extends [never]
+        ? unknown
+        : {
+              'Route path is missing params declared by the handler': Exclude<
+                  keyof P,
+                  RouteParamNames<Path>
+              >;
+          };
+
+/**
+ * Type for typed route params (e.g. `/items/:id<int>`): the pattern a param must match
+ * and an optional coercion of the matched value.
+ *
+ * @category Types
+ */
+export interface ParamType {
+    /** Regular expression source the param value must match */
+    pattern: string;
+    /** Convert the matched value (defaults to keeping the string) */
+    parse?: (value: string) => string | number;
+}
+
+/**
+ * Built-in param types for typed route params
+ *
+ * - `int` - Integer, coerced to a number
+ * - `uuid` - UUID in canonical 8-4-4-4-12 form
+ * - `slug` - Lowercase letters and digits separated by single dashes
+ *
+ * @category Utilities
+ */
+export const PARAM_TYPES: Readonly<Record<string, ParamType>> = {
+    int: { pattern: '-?\\d+', parse: Number },
+    uuid: {
+        pattern: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+    },
+    slug: { pattern: '[a-z0-9]+(?:-[a-z0-9]+)*' },
+};
+
+/**
+ * Source of the regular expression matching one param token in a path: the separator,
+ * name, `<type>` or `(pattern)`, and `?`/`+` modifier. Patterns may nest one level of
+ * parentheses.
+ */
+const PARAM_TOKEN = /(\/?\.?):(\w+)(?:<(\w+)>|\(((?:[^()\\]|\\.|\([^()]*\))*)\))?([?+]?)/.source;
+
+/**
+ * Get the pattern a param must match from its type or inline pattern
+ */
+function getParamPattern(path: string, type?: string, pattern?: string): string | undefined {
+    if (type === undefined) {
+        return pattern;
+    }
+    if (!PARAM_TYPES[type]) {
+        throw new Error(`Unknown param type '${type}' in path '${path}'`);
+    }
+    return PARAM_TYPES[type].pattern;
+}
+
+/**
+ * Route path compiled to a regular expression
+ *
+ * @category Types
+ */
+export interface CompiledPath {
+    /** Matches request pathnames; params are captured as named groups */
+    regex: RegExp;
+    /** Coerce the captured params of typed params (e.g. `<int>` to a number) */
+    parse(params: Record<string, string | undefined>): Record<string, any>;
+}
+
+/**
+ * Compile a route path to a regular expression.
+ *
+ * Supports itty-router's syntax (`:name`, optional `:name?`, greedy `:name+`, `*` and
+ * `.` extensions) plus param constraints: an inline pattern (`:id(\d+)`) or a param type
+ * from {@link PARAM_TYPES} (`:id<int>`). Paths whose params don't match don't match at all.
+ *
+ * Route paths match with or without a trailing slash, and `*` also matches nothing. In
+ * `'middleware'` mode the whole pathname must match and `*` matches any characters, as
+ * path-specific middleware always has.
+ *
+ * @param path - Route or middleware path pattern
+ * @param mode - Matching mode
+ * @returns The compiled path
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const { regex, parse } = compilePath('/items/:id<int>');
+ * parse(regex.exec('/items/42')!.groups!); // { id: 42 }
+ * regex.test('/items/abc'); // false
+ * ```
+ */
+export function compilePath(path: string, mode: 'route' | 'middleware' = 'route'): CompiledPath {
+    const parsers: Record<string, (value: string) => string | number> = {};
+    const tokens = new RegExp(`${PARAM_TOKEN}|(\\/?)\\*|\\.`, 'g');
+
+    const source = path
+        .replace(/\/+(\/|$)/g, '$1')
+        .replace(tokens, (token, separator, name, type, pattern, modifier, wildcardSlash) => {
+            if (name === undefined) {
+                if (token === '.') return '\\.';
+                return mode === 'route' ? `(${wildcardSlash}.*)?` : `${wildcardSlash}.*`;
+            }
+
+            const parse = type === undefined ? undefined : PARAM_TYPES[type]?.parse;
+            if (parse) parsers[name] = parse;
+
+            const valuePattern =
+                getParamPattern(path, type, pattern) ??
+                (modifier === '+' ? '[^]+' : `[^${separator.replace('/', '')}/]+?`);
+            const group = `(${separator.replace('.', '\\.')}(?<${name}>${valuePattern}))`;
+            return modifier === '?' ? `${group}?` : group;
+        });
+
+    return {
+        regex: new RegExp(mode === 'route' ? `^${source}/*$` : `^${source}$`),
+        parse(params) {
+            const parsed: Record<string, any> = { ...params };
+            for (const [name, parse] of Object.entries(parsers)) {
+                const value = params[name];
+                if (value !== undefined) parsed[name] = parse(value);
+            }
+            return parsed;
+        },
+    };
+}
+
+/**
+ * Values accepted for route params when building a URL
+ *
+ * @category Types
+ */
+export type UrlParams = Record<string, string | number>;
+
+/**
+ * Values accepted for the query string when building a URL. Array values repeat the key,
+ * and undefined values are skipped.
+ *
+ * @category Types
+ */
+export type UrlQuery = Record<string, string | number | boolean | (string | number)[] | undefined>;
+
+/**
+ * Fill the params of a route path, percent-encoding each value.
+ *
+ * Greedy params (`:path+`) keep their slashes, and missing optional params (`:name?`) drop
+ * their segment. Throws when a required param is missing, a value doesn't match its param's
+ * type or pattern, or the path has a wildcard.
+ *
+ * @param path - Route path pattern (e.g., '/users/:id')
+ * @param params - Param values
+ * @param query - Optional query string values
+ * @returns The filled path, with the query string if any
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * buildRoutePath('/users/:id/files/:path+', { id: 'a b', path: 'docs/q1.pdf' }, { v: 2 });
+ * // '/users/a%20b/files/docs/q1.pdf?v=2'
+ * ```
+ */
+export function buildRoutePath(path: string, params: UrlParams = {}, query?: UrlQuery): string {
+    if (path.replace(new RegExp(PARAM_TOKEN, 'g'), '').includes('*')) {
+        throw new Error(`Cannot build a URL for wildcard path '${path}'`);
+    }
+
+    const filled = path.replace(
+        new RegExp(PARAM_TOKEN, 'g'),
+        (
+            _,
+            separator: string,
+            name: string,
+            type?: string,
+            pattern?: string,
+            modifier?: string
+        ) => {
+            const value = params[name];
+            if (value === undefined) {
+                if (modifier === '?') return '';
+                throw new Error(`Missing param '${name}' for path '${path}'`);
+            }
+
+            const encoded =
+                modifier === '+'
+                    ? String(value).split('/').map(encodeURIComponent).join('/')
+                    : encodeURIComponent(String(value));
+            const valuePattern = getParamPattern(path, type, pattern);
+            if (valuePattern !== undefined && !new RegExp(`^(?:${valuePattern})$`).test(encoded)) {
+                throw new Error(
+                    `Param '${name}' value '${value}' does not match '${valuePattern}' in path '${path}'`
+                );
+            }
+            return separator + encoded;
+        }
+    );
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+        if (value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+            search.append(key, String(item));
+        }
+    }
+    const queryString = search.toString();
+
+    return (filled || '/') + (queryString ? `?${queryString}` : '');
+}
+
+/**
+ * Builds the path of a named route, as `router.url()` and `ctx.url()` do
+ *
+ * @category Types
+ */
+export type UrlBuilder = (name: string, params?: UrlParams, query?: UrlQuery) => string;
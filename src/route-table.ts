@@ -0,0 +1,78 @@
+/**
+ * Route table the routers compile at build, matching requests without testing every route
+ * @module route-table
+ */
+
+import { RouteEntry } from 'itty-router';
+
+/**
+ * Route table node for a literal path segment. `routes` lists, in registration order, the
+ * routes whose literal leading segments end here or at an ancestor: the only routes a
+ * pathname reaching this node can match.
+ */
+export interface RouteTableNode {
+    children: Map<string, RouteTableNode>;
+    routes: RouteEntry[];
+}
+
+/** Path segments that route patterns match verbatim (`.` is escaped when compiled) */
+const LITERAL_SEGMENT = /^[\w.~%-]+$/;
+
+/**
+ * Get the leading segments of a route path that only match themselves
+ */
+function getLiteralSegments(path: string): string[] {
+    const normalized = path.replace(/\/+(\/|$)/g, '$1');
+    const segments: string[] = [];
+    if (!normalized.startsWith('/')) {
+        return segments;
+    }
+    for (const segment of normalized.slice(1).split('/')) {
+        if (!LITERAL_SEGMENT.test(segment)) break;
+        segments.push(segment);
+    }
+    return segments;
+}
+
+/**
+ * Compile routes into a tree keyed by their literal leading segments, so matching a pathname
+ * only tests the routes under its own segments instead of every route
+ */
+export function compileRouteTable(routes: RouteEntry[]): RouteTableNode {
+    const root: RouteTableNode = { children: new Map(), routes: [] };
+    const nodes = routes.map(([, , , path]) => {
+        let node = root;
+        for (const segment of getLiteralSegments(path ?? '')) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = { children: new Map(), routes: [] };
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        return node;
+    });
+
+    // Routes are added in registration order to their node and every node below it
+    const addRoute = (node: RouteTableNode, route: RouteEntry): void => {
+        node.routes.push(route);
+        for (const child of node.children.values()) {
+            addRoute(child, route);
+        }
+    };
+    routes.forEach((route, index) => addRoute(nodes[index], route));
+    return root;
+}
+
+/**
+ * Get the routes that may match a pathname, in registration order
+ */
+export function matchRouteTable(table: RouteTableNode, pathname: string): RouteEntry[] {
+    let node = table;
+    for (const segment of pathname.slice(1).split('/')) {
+        const child = node.children.get(segment);
+        if (!child) break;
+        node = child;
+    }
+    return node.routes;
+}
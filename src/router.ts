@@ -1,9 +1,35 @@
 import { HttpError } from '@whi/http-errors';
-import { Router } from 'itty-router';
+import { IRequest, RequestLike, Router, RouterType, RouteEntry, StatusError } from 'itty-router';
 import { corsHeaders, CorsConfig, CorsOriginContext, buildCorsHeaders } from './cors.js';
 import { ResponseContext } from './response-context.js';
-import { Context, Middleware, Params, Env } from './context.js';
+import { AfterTask, Context, Middleware, Params, ParamValues, Env } from './context.js';
 import { Logger } from './logger.js';
+import {
+    CheckRouteParams,
+    RouteParams,
+    UrlBuilder,
+    UrlParams,
+    UrlQuery,
+    buildRoutePath,
+    compilePath,
+    CompiledPath,
+} from './path.js';
+import { RouteTableNode, compileRouteTable, matchRouteTable } from './route-table.js';
+import { BodyReader, checkContentLength, createBodyReader, limitBodySize } from './body.js';
+import {
+    SelectedSerializer,
+    Serializers,
+    jsonSerializer,
+    selectSerializer,
+} from './serializers.js';
+import {
+    RequestSchemas,
+    RouteSchemas,
+    ValidatedContext,
+    validateRequest,
+    validateResponse,
+} from './schema.js';
+import { REQUEST_ID_HEADER, TraceContext, createTraceContext, getRequestId } from './trace.js';
 
 // Re-export types from context
 export { Context, Middleware, Params, Env };
@@ -23,6 +49,8 @@ interface ResponseBuildContext {
     request: Request;
     response: ResponseContext;
     log: Logger;
+    /** Included in error bodies when set */
+    requestId?: string;
 }
 
 /**
@@ -32,13 +60,18 @@ interface ResponseBuildContext {
  * @param ctx The request context
  * @param corsConfig Optional CORS configuration
  * @param corsCtx Optional context for resolving dynamic CORS origins
+ * @param serializers Serializers available for the response (default: JSON only)
+ * @param selected Serializer negotiated before the handler ran. Without it, the Accept
+ *   header is negotiated here, falling back to the first serializer when none is acceptable.
  * @returns A properly formatted Response
  */
 export function buildResponse(
     result: any,
     ctx: ResponseBuildContext,
     corsConfig?: CorsConfig<any, any>,
-    corsCtx?: CorsOriginContext<any, any>
+    corsCtx?: CorsOriginContext<any, any>,
+    serializers: Serializers = { 'application/json': jsonSerializer },
+    selected?: SelectedSerializer
 ): Response {
     // If handler returns a Response directly, use it as-is
     if (result instanceof Response) {
@@ -51,40 +84,195 @@ export function buildResponse(
         ? buildCorsHeaders(corsConfig, requestOrigin, corsCtx)
         : corsHeaders;
 
+    // A Content-Type set by the handler picks its own serializer
+    const responseType = ctx.response.headers.get('Content-Type');
+    const { contentType, serialize } = responseType
+        ? selectSerializer(null, serializers, responseType)
+        : (selected ?? negotiateSerializer(ctx.request.headers.get('Accept'), serializers));
+
     // Build response using context settings merged with defaults
     const headers = new Headers({
-        'Content-Type': 'application/json',
+        'Content-Type': contentType,
         ...corsHeadersToApply,
     });
+    if (Object.keys(serializers).length > 1) {
+        headers.append('Vary', 'Accept');
+    }
 
     // Merge in any custom headers from the context (overrides defaults)
     ctx.response.headers.forEach((value, key) => {
         headers.set(key, value);
     });
 
-    return new Response(JSON.stringify(result), {
+    return new Response(serialize(result), {
         status: ctx.response.status,
         statusText: ctx.response.statusText,
         headers,
     });
 }
 
+/**
+ * Select the serializer for the Accept header, or the first one when none is acceptable
+ */
+function negotiateSerializer(accept: string | null, serializers: Serializers): SelectedSerializer {
+    try {
+        return selectSerializer(accept, serializers);
+    } catch {
+        return selectSerializer(null, serializers);
+    }
+}
+
+/**
+ * Format of error response bodies
+ *
+ * - `json` - `{ "error": message, ...details }` as `application/json` (default)
+ * - `problem` - RFC 9457 Problem Details as `application/problem+json`
+ *
+ * @category Types
+ */
+export type ErrorFormat = 'json' | 'problem';
+
+/**
+ * Reason phrases of error statuses, used as Problem Details titles
+ */
+const STATUS_TITLES: Record<number, string> = {
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    402: 'Payment Required',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    406: 'Not Acceptable',
+    407: 'Proxy Authentication Required',
+    408: 'Request Timeout',
+    409: 'Conflict',
+    410: 'Gone',
+    411: 'Length Required',
+    412: 'Precondition Failed',
+    413: 'Content Too Large',
+    414: 'URI Too Long',
+    415: 'Unsupported Media Type',
+    416: 'Range Not Satisfiable',
+    417: 'Expectation Failed',
+    421: 'Misdirected Request',
+    422: 'Unprocessable Content',
+    423: 'Locked',
+    424: 'Failed Dependency',
+    425: 'Too Early',
+    426: 'Upgrade Required',
+    428: 'Precondition Required',
+    429: 'Too Many Requests',
+    431: 'Request Header Fields Too Large',
+    451: 'Unavailable For Legal Reasons',
+    500: 'Internal Server Error',
+    501: 'Not Implemented',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+    505: 'HTTP Version Not Supported',
+    507: 'Insufficient Storage',
+    511: 'Network Authentication Required',
+};
+
+/**
+ * Error description included in 500 responses and error logs when the log level is
+ * `debug` or `trace`
+ *
+ * @category Types
+ */
+export interface ErrorDebugInfo {
+    /** Error name (or the type of a thrown non-Error value) */
+    name: string;
+    /** Error message (or the thrown value as a string) */
+    message: string;
+    /** Stack trace, if available */
+    stack?: string;
+    /** The error's `cause`, described the same way */
+    cause?: ErrorDebugInfo;
+}
+
+/**
+ * Maximum depth of cause chains in debug error descriptions (guards against cycles)
+ */
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * Describe an error and its cause chain for debug error bodies and logs
+ */
+function describeError(error: unknown, depth = 0): ErrorDebugInfo {
+    if (!(error instanceof Error)) {
+        return { name: typeof error, message: String(error) };
+    }
+
+    const info: ErrorDebugInfo = { name: error.name, message: error.message, stack: error.stack };
+    // Error.cause is ES2022, so it isn't in the ES2020 Error type
+    const { cause } = error as Error & { cause?: unknown };
+    if (cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+        info.cause = describeError(cause, depth + 1);
+    }
+    return info;
+}
+
+/**
+ * Build an RFC 9457 Problem Details response. Extension members may override `type` and
+ * `title`; the request path is the `instance`.
+ *
+ * @param ctx The request context
+ * @param pathname The request's pathname
+ * @param status HTTP status code
+ * @param detail Optional human-readable explanation
+ * @param extensions Extension members (e.g. HttpError details)
+ * @param headers Response headers (Content-Type is replaced)
+ * @returns A Problem Details Response
+ */
+function buildProblemResponse(
+    ctx: ResponseBuildContext,
+    pathname: string,
+    status: number,
+    detail: string | undefined,
+    extensions: Record<string, unknown>,
+    headers: HeadersInit
+): Response {
+    const body = {
+        type: 'about:blank',
+        title: STATUS_TITLES[status] ?? `HTTP ${status}`,
+        ...extensions,
+        status,
+        detail,
+        instance: pathname,
+    };
+
+    const responseHeaders = new Headers(headers);
+    responseHeaders.set('Content-Type', 'application/problem+json');
+    return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
 /**
  * Build an error Response from an error, preserving HttpError details and headers.
  *
+ * Other errors become an opaque 500, unless the log level is `debug` or `trace`: then the
+ * body's `debug` member describes the error, its stack and its cause chain. Bodies include
+ * the context's request ID, if any, as `requestId`.
+ *
  * @param error The error that was thrown
  * @param ctx The request context
  * @param corsConfig Optional CORS configuration
  * @param corsCtx Optional context for resolving dynamic CORS origins
+ * @param format Error body format (default: 'json')
+ * @param pathname The request's pathname, if already parsed (default: from the request URL)
  * @returns An error Response
  */
 export function buildErrorResponse(
     error: unknown,
     ctx: ResponseBuildContext,
     corsConfig?: CorsConfig<any, any>,
-    corsCtx?: CorsOriginContext<any, any>
+    corsCtx?: CorsOriginContext<any, any>,
+    format: ErrorFormat = 'json',
+    pathname?: string
 ): Response {
-    ctx.log.error('Request error', { error: String(error) });
+    const debug = ctx.log.isLevelEnabled('debug');
+    ctx.log.error('Request error', { error: debug ? describeError(error) : String(error) });
+    const requestIdMember = ctx.requestId === undefined ? {} : { requestId: ctx.requestId };
 
     // Get CORS headers
     const requestOrigin = ctx.request.headers.get('Origin');
@@ -104,6 +292,25 @@ export function buildErrorResponse(
             headers.set(key, value);
         });
 
+        // HttpError details become extension members
+        const { details } = error as HttpError & { details?: Record<string, unknown> | null };
+        if (format === 'problem') {
+            return buildProblemResponse(
+                ctx,
+                pathname ?? new URL(ctx.request.url).pathname,
+                response.status,
+                error.message,
+                { ...details, ...requestIdMember },
+                headers
+            );
+        }
+        if (ctx.requestId !== undefined) {
+            return new Response(
+                JSON.stringify({ error: error.message, ...details, ...requestIdMember }),
+                { status: response.status, statusText: response.statusText, headers }
+            );
+        }
+
         return new Response(response.body, {
             status: response.status,
             statusText: response.statusText,
@@ -111,8 +318,20 @@ export function buildErrorResponse(
         });
     }
 
-    // Unknown error - return 500
-    return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
+    // Unknown error - return 500, describing the error only while debugging
+    const debugInfo = debug ? { debug: describeError(error) } : {};
+    if (format === 'problem') {
+        return buildProblemResponse(
+            ctx,
+            pathname ?? new URL(ctx.request.url).pathname,
+            500,
+            undefined,
+            { ...requestIdMember, ...debugInfo },
+            corsHeadersToApply
+        );
+    }
+    const body = { error: 'Internal Server Error', ...requestIdMember, ...debugInfo };
+    return new Response(JSON.stringify(body), {
         status: 500,
         headers: {
             'Content-Type': 'application/json',
@@ -121,152 +340,1195 @@ export function buildErrorResponse(
     });
 }
 
+/**
+ * Error mapper for translating errors thrown by middleware or route handlers.
+ *
+ * Return a `Response` to send it as-is, an `HttpError` to send it as the error response,
+ * or `undefined` to pass the error on to the next mapper (or the default error handling).
+ * Errors thrown by a mapper are handled as if the mapper had returned them.
+ *
+ * @typeParam C - Context type (Context for WorkerRouter, DurableObjectContext for DurableObjectRouter)
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const mapDomainErrors: ErrorMapper = (error, ctx) => {
+ *     if (error instanceof UserNotFoundError) {
+ *         return new HttpError(404, error.message);
+ *     }
+ *     return undefined;
+ * };
+ * ```
+ */
+export type ErrorMapper<C = Context<any, any, any>> = (
+    error: unknown,
+    ctx: C
+) => Response | HttpError | undefined | Promise<Response | HttpError | undefined>;
+
+/**
+ * Error class accepted by `mapError()`; subclasses match too.
+ *
+ * @category Types
+ */
+export type ErrorClass<T extends Error = Error> = abstract new (...args: any[]) => T;
+
+/**
+ * What `mapError()` maps an error class to: an HTTP status (using the error's message), or
+ * a function returning the error response like an {@link ErrorMapper}.
+ *
+ * @typeParam T - Error type
+ * @typeParam C - Context type (Context for WorkerRouter, DurableObjectContext for DurableObjectRouter)
+ *
+ * @category Types
+ */
+export type ErrorClassMapping<T, C> = number | ((error: T, ctx: C) => ReturnType<ErrorMapper<C>>);
+
+/**
+ * Build an error mapper for one error class
+ */
+function mapErrorClass<T extends Error, C>(
+    errorClass: ErrorClass<T>,
+    mapping: ErrorClassMapping<T, C>
+): ErrorMapper<C> {
+    return (error, ctx) => {
+        if (!(error instanceof errorClass)) {
+            return undefined;
+        }
+        return typeof mapping === 'number'
+            ? new HttpError(mapping, error.message)
+            : mapping(error, ctx);
+    };
+}
+
+/**
+ * Handler for requests that no route matches, replacing the default JSON 404.
+ *
+ * Runs after the middleware for the path, and errors it throws go through the error mappers.
+ *
+ * @typeParam C - Context type (Context for WorkerRouter, DurableObjectContext for DurableObjectRouter)
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const notFound: NotFoundHandler<Context<Env>> = (ctx) =>
+ *     ctx.request.headers.get('Accept')?.includes('text/html')
+ *         ? new Response(notFoundPage, { status: 404, headers: { 'Content-Type': 'text/html' } })
+ *         : ctx.env.ASSETS.fetch(ctx.request);
+ * ```
+ */
+export type NotFoundHandler<C = Context<any, any, any>> = (ctx: C) => Response | Promise<Response>;
+
+/**
+ * Handler for requests whose path matches routes that don't implement the request method,
+ * replacing the default 405 error. Receives the methods the path allows; the response
+ * should list them in an `Allow` header.
+ *
+ * @typeParam C - Context type (Context for WorkerRouter, DurableObjectContext for DurableObjectRouter)
+ *
+ * @category Types
+ */
+export type MethodNotAllowedHandler<C = Context<any, any, any>> = (
+    ctx: C,
+    allowedMethods: string[]
+) => Response | Promise<Response>;
+
+/**
+ * Run an error through error mappers (in order) and build the resulting error Response.
+ *
+ * @param error The error that was thrown
+ * @param ctx The request context
+ * @param errorMappers Error mappers to try, innermost scope first
+ * @param corsConfig Optional CORS configuration
+ * @param corsCtx Optional context for resolving dynamic CORS origins
+ * @param format Error body format
+ * @param pathname The request's pathname
+ * @returns An error Response
+ */
+async function mapErrorResponse<C extends ResponseBuildContext>(
+    error: unknown,
+    ctx: C,
+    errorMappers: ErrorMapper<C>[],
+    corsConfig?: CorsConfig<any, any>,
+    corsCtx?: CorsOriginContext<any, any>,
+    format?: ErrorFormat,
+    pathname?: string
+): Promise<Response> {
+    for (const mapper of errorMappers) {
+        let mapped: Response | HttpError | undefined;
+        try {
+            mapped = await mapper(error, ctx);
+        } catch (mapperError) {
+            error = mapperError;
+            break;
+        }
+
+        if (mapped instanceof Response) {
+            return mapped;
+        }
+        if (mapped !== undefined) {
+            error = mapped;
+            break;
+        }
+    }
+
+    return buildErrorResponse(error, ctx, corsConfig, corsCtx, format, pathname);
+}
+
+/**
+ * URL builder for contexts created outside a router, which has no named routes
+ */
+const noNamedRoutes: UrlBuilder = (name) => {
+    throw new Error(`Unknown route name '${name}'`);
+};
+
+/**
+ * Tasks scheduled with `ctx.after()`, by context, until the router runs them
+ */
+const afterTasks = new WeakMap<object, AfterTask[]>();
+
+/**
+ * Run the tasks a context scheduled with `ctx.after()` once the response has been returned,
+ * in order, logging their errors. Tasks scheduled while they run are run too.
+ *
+ * @param ctx The request context
+ * @param waitUntil Keeps the runtime alive until the tasks finish, if available
+ */
+function runAfterTasks(
+    ctx: { log: Logger },
+    waitUntil?: (promise: Promise<unknown>) => void
+): void {
+    const tasks = afterTasks.get(ctx);
+    if (!tasks || tasks.length === 0) {
+        return;
+    }
+
+    const run = (async () => {
+        // Let the response go out first
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        for (let task = tasks.shift(); task; task = tasks.shift()) {
+            try {
+                await task();
+            } catch (error) {
+                ctx.log.error('After-response task failed', { error: String(error) });
+            }
+        }
+    })();
+    waitUntil?.(run);
+}
+
 /**
  * Creates a Context object for a request.
  *
  * @param request The incoming request
  * @param env Environment bindings
  * @param params Route parameters
- * @param log Logger instance
+ * @param log Logger instance (the context's logger adds the request ID to every line)
+ * @param url Named route URL builder (defaults to one without named routes)
+ * @param executionContext Worker execution context, if any
  * @returns A fresh Context object
  */
-export function createContext<E extends Env, P extends Params, D = Record<string, any>>(
+export function createContext<E extends Env, P extends ParamValues, D = Record<string, any>>(
     request: Request,
     env: E,
     params: P,
-    log: Logger
+    log: Logger,
+    url: UrlBuilder = noNamedRoutes,
+    executionContext?: ExecutionContext
 ): Context<E, P, D> {
-    return {
+    const trace = createTraceContext(request);
+    const requestId = getRequestId(request, trace);
+    const tasks: AfterTask[] = [];
+    const ctx: Context<E, P, D> = {
         request,
         env,
         params,
         data: {} as D,
         response: new ResponseContext(),
-        log,
+        log: log.child({ requestId }),
+        url,
+        requestId,
+        trace,
+        executionContext,
+        after: (task) => {
+            tasks.push(task);
+        },
+        ...createBodyReader(request),
+    };
+    afterTasks.set(ctx, tasks);
+    return ctx;
+}
+
+/**
+ * Base class for route handlers in WorkerRouter
+ *
+ * Extend this class to create handlers for specific routes. Override the methods you want to
+ * support: only those are registered with the router, and requests using other methods get a
+ * 405 Method Not Allowed response with an `Allow` header listing the supported methods.
+ *
+ * Response customization:
+ * - Use `ctx.response` to modify status, statusText, or headers before returning data
+ * - Return a `Response` object directly for full control
+ * - Return plain data for default JSON serialization
+ *
+ * @typeParam E - Environment type
+ * @typeParam P - Route parameters type
+ * @typeParam D - Data type for middleware-set data
+ *
+ * @category Handlers
+ *
+ * @example
+ * ```typescript
+ * class UserHandler extends RouteHandler<Env, { id: string }> {
+ *   async get(ctx) {
+ *     return { userId: ctx.params.id };
+ *   }
+ *
+ *   async post(ctx) {
+ *     const body = await ctx.request.json();
+ *     // Customize response
+ *     ctx.response.status = 201;
+ *     ctx.response.headers.set('X-Created-Id', ctx.params.id);
+ *     return { userId: ctx.params.id, created: true, data: body };
+ *   }
+ * }
+ *
+ * router.defineRouteHandler('/users/:id', UserHandler);
+ * ```
+ */
+export abstract class RouteHandler<
+    E extends Env = Env,
+    P extends ParamValues = Params,
+    D = Record<string, any>,
+> {
+    protected path: string;
+    /** Logger; in handler methods, the request's logger (with its `requestId`) like `ctx.log` */
+    log: Logger;
+
+    constructor(path: string, options?: { log?: Logger }) {
+        this.path = path;
+
+        if (options?.log) this.log = options.log;
+        else this.log = new Logger(path, 'fatal');
+    }
+
+    /**
+     * Define CORS configuration for this route handler.
+     * Override this method to enable CORS with dynamic configuration based on the request.
+     * The same config is automatically applied to both OPTIONS preflight and actual responses.
+     *
+     * Return undefined to use the router's default CORS config (if any).
+     *
+     * @example
+     * ```typescript
+     * class MyHandler extends RouteHandler<Env> {
+     *   cors(ctx): CorsConfig | undefined {
+     *     const origin = ctx.request.headers.get('Origin');
+     *     if (origin?.endsWith('.myapp.com')) {
+     *       return { origins: origin, credentials: true };
+     *     }
+     *     return undefined; // Use router default or no CORS
+     *   }
+     *
+     *   async get(ctx) {
+     *     return { data: 'hello' };
+     *   }
+     * }
+     * ```
+     */
+    cors(ctx: Context<E, P, D>): CorsConfig | undefined {
+        return undefined;
+    }
+
+    /**
+     * Extension HTTP methods (e.g. QUERY or WebDAV's PROPFIND) served by this handler,
+     * mapped to the names of the instance methods that handle them. They run through
+     * middleware and CORS like the standard methods and are listed in `Allow` headers.
+     *
+     * @example
+     * ```typescript
+     * class SearchHandler extends RouteHandler<Env> {
+     *   static methods = { QUERY: 'query' };
+     *
+     *   async query(ctx: Context<Env>) {
+     *     return search(await ctx.request.json());
+     *   }
+     * }
+     * ```
+     */
+    static methods?: Record<string, string>;
+
+    /**
+     * Middleware that runs for this handler's routes only, after the router's middleware
+     * and any middleware passed to defineRouteHandler(). Either a list for every method or
+     * lists keyed by HTTP method.
+     *
+     * @example
+     * ```typescript
+     * class PostsHandler extends RouteHandler<Env> {
+     *   static middleware = { POST: [requireAuth], DELETE: [requireAuth, audit] };
+     *
+     *   async get(ctx: Context<Env>) {
+     *     return listPosts(ctx.env);
+     *   }
+     * }
+     * ```
+     */
+    static middleware?: RouteMiddleware<Middleware<any, any, any>>;
+
+    /**
+     * Standard Schema schemas (zod, valibot, arktype, ...) for the params, query, body and
+     * responses of this handler's routes. Requests are validated after middleware, before the
+     * handler method; invalid requests get a 400 listing the issues. Schemas keyed by HTTP
+     * method replace the shared ones for that method. Type handler contexts with
+     * {@link ValidatedContext}.
+     *
+     * @example
+     * ```typescript
+     * class UsersHandler extends RouteHandler<Env, any> {
+     *   static schemas = {
+     *     query: z.object({ limit: z.coerce.number().max(100).default(20) }),
+     *     POST: { body: NewUser, responses: { 201: User } },
+     *   } satisfies RouteSchemas;
+     *
+     *   async get(ctx: ValidatedContext<Context<Env>, typeof UsersHandler.schemas, 'GET'>) {
+     *     return listUsers(ctx.env, ctx.query.limit);
+     *   }
+     * }
+     * ```
+     */
+    static schemas?: RouteSchemas;
+
+    /**
+     * Maximum request body size in bytes for this handler's routes, overriding the router's
+     * `maxBodySize`. Larger requests get a 413 before the handler runs.
+     */
+    static maxBodySize?: number;
+
+    /**
+     * Serializers for this handler's data, replacing the router's `serializers`. Spread
+     * `builtinSerializers` to add to the built-in ones.
+     *
+     * @example
+     * ```typescript
+     * class ReportHandler extends RouteHandler<Env> {
+     *   static serializers = { 'text/csv': csvSerializer, 'application/json': jsonSerializer };
+     *
+     *   async get(ctx: Context<Env>) {
+     *     return listRows(ctx.env); // CSV unless the client prefers JSON
+     *   }
+     * }
+     * ```
+     */
+    static serializers?: Serializers;
+
+    // HTTP method handlers that can be implemented by subclasses
+    async get(ctx: Context<E, P, D>): Promise<any> {
+        throw new HttpError(405, 'Method Not Allowed');
+    }
+
+    /**
+     * Handle HEAD requests. Runs get() by default; the router strips the response body
+     * and keeps the status and headers. Override for a cheaper HEAD implementation.
+     */
+    async head(ctx: Context<E, P, D>): Promise<any> {
+        return this.get(ctx);
+    }
+
+    async post(ctx: Context<E, P, D>): Promise<any> {
+        throw new HttpError(405, 'Method Not Allowed');
+    }
+
+    async put(ctx: Context<E, P, D>): Promise<any> {
+        throw new HttpError(405, 'Method Not Allowed');
+    }
+
+    async delete(ctx: Context<E, P, D>): Promise<any> {
+        throw new HttpError(405, 'Method Not Allowed');
+    }
+
+    async patch(ctx: Context<E, P, D>): Promise<any> {
+        throw new HttpError(405, 'Method Not Allowed');
+    }
+}
+
+/**
+ * Options for WorkerRouter constructor
+ *
+ * @category Types
+ */
+export interface WorkerRouterOptions {
+    /**
+     * CORS configuration for the router.
+     * If not provided, default CORS headers (without Access-Control-Allow-Origin) are used.
+     */
+    cors?: CorsConfig;
+
+    /**
+     * Error mapper for errors thrown by this router's middleware and route handlers.
+     * Mappers of mounted routers and groups run before their parent's mapper.
+     */
+    errorMapper?: ErrorMapper<Context<any, any, any>>;
+
+    /**
+     * Handler for requests no route matches (default: JSON 404).
+     * Mounted routers and groups can set their own for paths under their prefix.
+     */
+    notFound?: NotFoundHandler<Context<any, any, any>>;
+
+    /**
+     * Handler for requests whose path only matches routes with other methods (default: 405
+     * error with an `Allow` header). Mounted routers and groups can set their own.
+     */
+    methodNotAllowed?: MethodNotAllowedHandler<Context<any, any, any>>;
+
+    /**
+     * Format of error response bodies, including the built-in 404 (default: 'json').
+     * Mounted routers and groups use their parent's format unless they set their own.
+     */
+    errorFormat?: ErrorFormat;
+
+    /**
+     * Maximum request body size in bytes (default: no limit). Larger requests get a 413
+     * before the handler runs. Mounted routers and groups use their parent's limit unless
+     * they set their own, and handler classes can set `static maxBodySize`.
+     */
+    maxBodySize?: number;
+
+    /**
+     * Serializers for handler data, keyed by the Content-Type they produce, in order of
+     * preference (e.g. `builtinSerializers`). The request's Accept header selects one,
+     * and requests accepting none of them get a 406. Without serializers, handler data is
+     * sent as JSON whatever the Accept header. Mounted routers and groups use their
+     * parent's serializers unless they set their own, and handler classes can set
+     * `static serializers`.
+     */
+    serializers?: Serializers;
+
+    /**
+     * Throw from build() when a route duplicates or is shadowed by an earlier route,
+     * instead of logging a warning. Only the root router's setting applies. Use it to catch
+     * conflicts at deploy time: the warning waits for the first request unless
+     * `router.log` already shows warnings at build.
+     */
+    strict?: boolean;
+}
+
+/**
+ * Middleware entry that applies to a route, as reported by `routes()`
+ *
+ * @category Types
+ */
+export interface RouteMiddlewareInfo {
+    /**
+     * Path pattern the middleware was registered with: the route's path for per-route
+     * middleware, null for global middleware
+     */
+    path: string | null;
+    /** HTTP method the middleware is limited to (null for all methods) */
+    method: string | null;
+    /** Middleware function name ('anonymous' for unnamed functions) */
+    name: string;
+}
+
+/**
+ * Description of a registered route, as reported by `routes()`
+ *
+ * @category Types
+ */
+export interface RouteInfo {
+    /** Full path pattern, including mount and group prefixes */
+    path: string;
+    /** Route name given to defineRouteHandler(), if any */
+    name?: string;
+    /** HTTP methods the handler implements (OPTIONS is always answered as well) */
+    methods: string[];
+    /** Handler class name */
+    handler: string;
+    /** Middleware entries that apply to the route, in execution order */
+    middleware: RouteMiddlewareInfo[];
+    /**
+     * CORS configuration applied to the route. A handler's cors() method can still
+     * override it per request; see `handlerCors`.
+     */
+    cors?: CorsConfig<any, any>;
+    /** Whether the handler class overrides cors() */
+    handlerCors: boolean;
+}
+
+/**
+ * Middleware for a single route: a list that runs for every method, or lists keyed by
+ * HTTP method (e.g. `{ POST: [auth] }`). HEAD requests use the GET list unless keyed
+ * themselves.
+ *
+ * @category Types
+ */
+export type RouteMiddleware<M> = M[] | Record<string, M[]>;
+
+/**
+ * Options for a single route registered with defineRouteHandler()
+ *
+ * @typeParam M - Middleware type of the router
+ *
+ * @category Types
+ */
+export interface RouteOptions<M = Middleware<any, any, any>> {
+    /**
+     * Route name for building URLs with `router.url()` and `ctx.url()`.
+     * Names must be unique across the router and its mounted routers.
+     */
+    name?: string;
+
+    /**
+     * Middleware for this route only. Runs after the router's middleware and before the
+     * handler class's static `middleware`.
+     */
+    middleware?: RouteMiddleware<M>;
+}
+
+/**
+ * Route handler function registered with `route()`. Returns data (serialized as JSON) or a
+ * Response, like RouteHandler methods.
+ *
+ * @category Types
+ */
+export type RouteFunction<E = Env, P = Params, D = Record<string, any>> = (
+    ctx: Context<E, P, D>
+) => Promise<any> | any;
+
+/**
+ * Internal type for storing middleware with path patterns
+ */
+interface MiddlewareEntry<E extends Env> {
+    path: string | null; // null means global (matches all)
+    method: string | null; // null means all methods
+    middleware: Middleware<E, Params, any>;
+}
+
+/**
+ * Internal type for a route handler registered via defineRouteHandler()
+ */
+interface RouteDefinition<H, F> {
+    path: string;
+    handler_cls: H;
+    name?: string;
+    middleware?: RouteMiddleware<F>;
+}
+
+/**
+ * Internal type for a child router registered via mount()
+ */
+interface MountDefinition<R> {
+    prefix: string;
+    router: R;
+}
+
+/**
+ * Internal type for the middleware and CORS settings shared by the routes of one router.
+ * Mounted routers get their own scope that inherits from the parent scope.
+ */
+interface RouteScope<M> {
+    prefix: string; // '' for the root router
+    prefixPattern: RegExp; // matches pathnames under the prefix
+    middlewares: ScopedMiddleware<M>[]; // parent entries first, paths already re-based
+    corsConfig?: CorsConfig;
+    errorMappers: ErrorMapper<any>[]; // innermost scope first
+    notFound?: NotFoundHandler<any>;
+    methodNotAllowed?: MethodNotAllowedHandler<any>;
+    errorFormat?: ErrorFormat;
+    maxBodySize?: number;
+    serializers?: Serializers;
+}
+
+/**
+ * Internal type for a middleware entry re-based into a scope, with its path pattern compiled
+ * once at build time (null for global middleware)
+ */
+type ScopedMiddleware<M> = M & { matcher: CompiledPath | null };
+
+/**
+ * Internal type for a route definition resolved to its full path and scope at build time
+ */
+interface ResolvedRoute<H, M extends { middleware: unknown }>
+    extends RouteDefinition<H, M['middleware']> {
+    scope: RouteScope<M>;
+}
+
+/**
+ * Internal type for RouteHandler subclasses accepted by WorkerRouter
+ */
+type RouteHandlerClass<E extends Env> = (new (
+    ...args: ConstructorParameters<typeof RouteHandler>
+) => RouteHandler<E, any, any>) & {
+    methods?: Record<string, string>;
+    middleware?: RouteMiddleware<Middleware<E, any, any>>;
+    schemas?: RouteSchemas;
+    maxBodySize?: number;
+    serializers?: Serializers;
+};
+
+/**
+ * Internal type for DurableObjectRouteHandler subclasses accepted by DurableObjectRouter
+ */
+type DurableObjectRouteHandlerClass<E extends Env> = (new (
+    doState: DurableObjectState,
+    env: E,
+    path: string,
+    options?: { log?: Logger }
+) => DurableObjectRouteHandler<E, any, any>) & {
+    methods?: Record<string, string>;
+    middleware?: RouteMiddleware<DurableObjectMiddleware<any, any>>;
+    schemas?: RouteSchemas;
+    maxBodySize?: number;
+    serializers?: Serializers;
+};
+
+/**
+ * HTTP methods that route handler classes can implement
+ */
+const HANDLER_METHODS = ['get', 'head', 'post', 'put', 'delete', 'patch'] as const;
+
+/**
+ * Internal type for a HTTP method implemented by a route handler class
+ */
+type HandlerMethod = (typeof HANDLER_METHODS)[number];
+
+/**
+ * HTTP methods the router answers itself or that itty-router treats specially, which
+ * can't be declared as extension methods
+ */
+const RESERVED_METHODS = ['OPTIONS', 'ALL', ...HANDLER_METHODS.map((m) => m.toUpperCase())];
+
+/**
+ * Valid HTTP method name (an RFC 9110 token)
+ */
+const METHOD_TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Get the HTTP methods a handler implements, as [HTTP method, instance method] pairs.
+ *
+ * Standard methods count when the handler overrides them from its base class; HEAD is
+ * implemented whenever GET is, since the default head() runs get(). Extension methods
+ * come from the handler class's static `methods` map.
+ */
+function getImplementedMethods(
+    handler: object,
+    base: object,
+    extensionMethods: Record<string, string> = {}
+): [string, string][] {
+    const overrides = (method: HandlerMethod) => (handler as any)[method] !== (base as any)[method];
+    const methods: [string, string][] = HANDLER_METHODS.filter(
+        (method) => overrides(method) || (method === 'head' && overrides('get'))
+    ).map((method) => [method.toUpperCase(), method]);
+
+    for (const [httpMethod, name] of Object.entries(extensionMethods)) {
+        const method = httpMethod.toUpperCase();
+        if (!METHOD_TOKEN.test(method)) {
+            throw new Error(`Invalid HTTP method name '${httpMethod}'`);
+        }
+        if (RESERVED_METHODS.includes(method)) {
+            throw new Error(`Cannot declare standard method ${method} in static methods`);
+        }
+        if (typeof (handler as any)[name] !== 'function') {
+            throw new Error(`Handler method '${name}' for ${method} is not a function`);
+        }
+        methods.push([method, name]);
+    }
+
+    return methods;
+}
+
+/**
+ * Get the method whose entries of a method-keyed map apply to a request. HEAD requests run
+ * get() unless the handler overrides head(), so they use the GET entries unless the map
+ * has its own HEAD key.
+ */
+function selectKeyedMethod(httpMethod: string, keys: string[]): string {
+    const hasOwn = keys.some((key) => key.toUpperCase() === httpMethod);
+    return httpMethod === 'HEAD' && !hasOwn ? 'GET' : httpMethod;
+}
+
+/**
+ * Get the per-route middleware for an HTTP method: every entry of a list, or the entries
+ * keyed by the method (for HEAD, by GET unless HEAD has its own)
+ */
+function selectRouteMiddleware<M>(
+    middleware: RouteMiddleware<M> | undefined,
+    httpMethod: string
+): M[] {
+    if (middleware === undefined) {
+        return [];
+    }
+    if (Array.isArray(middleware)) {
+        return middleware;
+    }
+    const selected = selectKeyedMethod(httpMethod, Object.keys(middleware));
+    return Object.entries(middleware).flatMap(([method, entries]) => {
+        if (!METHOD_TOKEN.test(method)) {
+            throw new Error(`Invalid HTTP method name '${method}' in route middleware`);
+        }
+        return method.toUpperCase() === selected ? entries : [];
+    });
+}
+
+/**
+ * Select a route's schemas for an HTTP method: the method's own schemas (for HEAD, GET's
+ * unless HEAD has its own) over the shared ones. Returns undefined for routes without
+ * schemas.
+ */
+function selectRouteSchemas(
+    schemas: RouteSchemas | undefined,
+    httpMethod: string
+): RequestSchemas | undefined {
+    if (schemas === undefined) {
+        return undefined;
+    }
+
+    const { params, query, body, responses, ...methods } = schemas;
+    const selected = selectKeyedMethod(httpMethod, Object.keys(methods));
+    let own: RequestSchemas | undefined;
+    for (const [method, methodSchemas] of Object.entries(methods)) {
+        if (!METHOD_TOKEN.test(method)) {
+            throw new Error(`Invalid HTTP method name '${method}' in route schemas`);
+        }
+        if (method.toUpperCase() === selected) {
+            own = methodSchemas;
+        }
+    }
+    return { params, query, body, responses, ...own };
+}
+
+/**
+ * Describe per-route middleware for `routes()`
+ */
+function describeRouteMiddleware(
+    path: string,
+    middleware: RouteMiddleware<Function> | undefined
+): RouteMiddlewareInfo[] {
+    const entries = Array.isArray(middleware)
+        ? [[null, middleware] as const]
+        : Object.entries(middleware ?? {}).map(
+              ([method, list]) => [method.toUpperCase(), list] as const
+          );
+    return entries.flatMap(([method, list]) =>
+        list.map((fn) => ({ path, method, name: fn.name || 'anonymous' }))
+    );
+}
+
+/**
+ * View of a shared route handler for one request, whose `this.log` is the request's logger.
+ * Other properties are read and written through to the handler, so its state is shared.
+ */
+function withRequestLogger<H extends object>(handler: H, log: Logger): H {
+    return new Proxy(handler, {
+        get: (target, key, receiver) => (key === 'log' ? log : Reflect.get(target, key, receiver)),
+    });
+}
+
+/**
+ * Echo the request ID in a response header, copying responses whose headers are immutable
+ * (e.g. responses from `fetch()`)
+ */
+function withRequestIdHeader(response: Response, requestId: string): Response {
+    try {
+        response.headers.set(REQUEST_ID_HEADER, requestId);
+        return response;
+    } catch {
+        const copy = new Response(response.body, response);
+        copy.headers.set(REQUEST_ID_HEADER, requestId);
+        return copy;
+    }
+}
+
+/**
+ * Convert a response to a HEAD response: same status and headers, no body
+ */
+function toHeadResponse(response: Response): Response {
+    response.body?.cancel().catch(() => {});
+
+    return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: new Headers(response.headers),
+    });
+}
+
+/**
+ * Get the methods registered for routes matching a pathname (for the Allow header).
+ * Returns an empty list when no route matches the pathname.
+ */
+function getAllowedMethods(routes: RouteEntry[], pathname: string): string[] {
+    const methods = new Set<string>();
+    for (const [method, match] of routes) {
+        if (method !== 'ALL' && method !== 'OPTIONS' && match.test(pathname)) {
+            methods.add(method);
+        }
+    }
+    if (methods.size > 0) {
+        methods.add('OPTIONS');
+    }
+    return [...methods];
+}
+
+/**
+ * Build the OPTIONS response for a route: CORS headers plus the allowed methods.
+ * Access-Control-Allow-Methods lists the allowed methods unless the CORS config sets them.
+ */
+function buildOptionsResponse(
+    allowedMethods: string[],
+    corsHeadersToApply: Record<string, string>,
+    corsConfig?: CorsConfig<any, any>
+): Response {
+    const headers: Record<string, string> = {
+        ...corsHeadersToApply,
+        Allow: allowedMethods.join(', '),
+    };
+    if (!corsConfig?.methods) {
+        headers['Access-Control-Allow-Methods'] = headers.Allow;
+    }
+
+    return new Response(null, {
+        status: 204,
+        headers,
+    });
+}
+
+/**
+ * Join a mount prefix and a route path into one normalized path
+ */
+function joinPaths(prefix: string, path: string): string {
+    const base = prefix.replace(/\/+$/, '');
+    if (path === '' || path === '/') {
+        return base || '/';
+    }
+    return base + (path.startsWith('/') ? path : `/${path}`);
+}
+
+/**
+ * Re-base a middleware entry under a scope prefix and compile its path pattern
+ * (supports wildcards like /api/* and :param segments, including param constraints)
+ */
+function scopeMiddleware<M extends { path: string | null }>(
+    entry: M,
+    prefix: string
+): ScopedMiddleware<M> {
+    const path = entry.path === null ? null : joinPaths(prefix, entry.path);
+    return { ...entry, path, matcher: path === null ? null : compilePath(path, 'middleware') };
+}
+
+/**
+ * Compile the pattern matching pathnames under a scope prefix, with its params and literal
+ * dots matched like route paths
+ */
+function compileScopePrefix(prefix: string): RegExp {
+    return compilePath(`${prefix}/*`).regex;
+}
+
+/**
+ * Match middleware entries against a pathname, returning the matching entries and the
+ * params captured by their path patterns
+ */
+function matchMiddlewares<M extends { method: string | null }>(
+    entries: ScopedMiddleware<M>[],
+    method: string,
+    pathname: string
+): { matching: M[]; params: Record<string, any> } {
+    const matching: M[] = [];
+    const params: Record<string, any> = {};
+
+    for (const entry of entries) {
+        // HEAD requests run get(), so GET middleware guards them too
+        const methodMatches =
+            entry.method === method || (method === 'HEAD' && entry.method === 'GET');
+        if (entry.method && !methodMatches) {
+            continue;
+        }
+        if (entry.matcher === null) {
+            matching.push(entry); // Global middleware
+            continue;
+        }
+        const match = entry.matcher.regex.exec(pathname);
+        if (match) {
+            Object.assign(params, entry.matcher.parse(match.groups ?? {}));
+            matching.push(entry);
+        }
+    }
+
+    return { matching, params };
+}
+
+/**
+ * Internal type for a route that can never match because an earlier route takes its requests
+ */
+interface RouteConflict {
+    kind: 'duplicate' | 'shadowed';
+    path: string;
+    shadowedBy: string;
+    methods: string[];
+}
+
+/**
+ * Find registered routes that are unreachable for some of their methods.
+ *
+ * A later route is shadowed when an earlier route with the same method matches its whole
+ * pattern: its params are tested as literal segments, which the earlier route's params
+ * match like any value. Greedy params and wildcards are expanded to several segments so
+ * a single-segment param doesn't count as covering them. Routes with the same pattern apart
+ * from param names are duplicates, even when constrained params can't match the sample.
+ */
+function findRouteConflicts(routes: RouteEntry[]): RouteConflict[] {
+    const conflicts: RouteConflict[] = [];
+    const shape = (path: string) => path.replace(/:\w+/g, ':');
+    const entries = routes
+        .filter(([method]) => method !== 'OPTIONS' && method !== 'ALL')
+        .map(([method, regex, , path = '']) => ({ method, regex, path }));
+
+    entries.forEach(({ method, path }, index) => {
+        const sample = path.replace(/:(\w+)\+/g, ':$1/:$1').replace(/\*/g, '*/*');
+        const earlier = entries
+            .slice(0, index)
+            .find(
+                (entry) =>
+                    entry.method === method &&
+                    (shape(entry.path) === shape(path) || entry.regex.test(sample))
+            );
+        if (!earlier) {
+            return;
+        }
+
+        const kind = shape(earlier.path) === shape(path) ? 'duplicate' : 'shadowed';
+        const existing = conflicts.find(
+            (c) => c.kind === kind && c.path === path && c.shadowedBy === earlier.path
+        );
+        if (existing) {
+            existing.methods.push(method);
+        } else {
+            conflicts.push({ kind, path, shadowedBy: earlier.path, methods: [method] });
+        }
+    });
+
+    return conflicts;
+}
+
+/**
+ * Describe a route conflict for warnings and errors
+ */
+function describeConflict({ kind, path, shadowedBy, methods }: RouteConflict): string {
+    return kind === 'duplicate'
+        ? `${methods.join(', ')} ${path} duplicates earlier route ${shadowedBy}`
+        : `${methods.join(', ')} ${path} is shadowed by earlier route ${shadowedBy}`;
+}
+
+/**
+ * Map route names to their full paths under the router's base, rejecting duplicate names
+ */
+function collectNamedRoutes(
+    routes: { path: string; name?: string }[],
+    base: string
+): Map<string, string> {
+    const named = new Map<string, string>();
+    for (const { path, name } of routes) {
+        if (name === undefined) continue;
+        if (named.has(name)) {
+            throw new Error(
+                `Duplicate route name '${name}' for '${named.get(name)}' and '${path}'`
+            );
+        }
+        named.set(name, base + path);
+    }
+    return named;
+}
+
+/**
+ * Describe a resolved route for `routes()`
+ */
+function describeRoute(
+    route: ResolvedRoute<
+        {
+            name: string;
+            prototype: object;
+            methods?: Record<string, string>;
+            middleware?: RouteMiddleware<Function>;
+        },
+        { path: string | null; method: string | null; middleware: Function }
+    >,
+    base: { cors: unknown }
+): RouteInfo {
+    const { path, handler_cls, scope } = route;
+    const prototype = handler_cls.prototype as { cors: unknown };
+
+    return {
+        path,
+        methods: getImplementedMethods(prototype, base, handler_cls.methods).map(
+            ([method]) => method
+        ),
+        name: route.name,
+        handler: handler_cls.name,
+        // A route pattern's :param segments match the middleware's [^/]+ like real values do
+        middleware: [
+            ...scope.middlewares
+                .filter((entry) => entry.matcher === null || entry.matcher.regex.test(path))
+                .map((entry) => ({
+                    path: entry.path,
+                    method: entry.method,
+                    name: entry.middleware.name || 'anonymous',
+                })),
+            ...describeRouteMiddleware(path, route.middleware),
+            ...describeRouteMiddleware(path, handler_cls.middleware),
+        ],
+        cors: scope.corsConfig,
+        handlerCors: prototype.cors !== base.cors,
+    };
+}
+
+/**
+ * Find the innermost scope whose prefix covers the given pathname
+ */
+function findScope<S extends RouteScope<unknown>>(scopes: S[], pathname: string): S | undefined {
+    let match: S | undefined;
+    for (const scope of scopes) {
+        if (!scope.prefixPattern.test(pathname)) {
+            continue;
+        }
+        if (!match || scope.prefix.length > match.prefix.length) {
+            match = scope;
+        }
+    }
+    return match;
+}
+
+/**
+ * Replace itty-router's fetch, which tests every route, with one that matches through the
+ * route table returned by `getTable`. The URL is parsed once and passed to route handlers
+ * after the request; otherwise it behaves like itty-router's: it sets `request.query`,
+ * `params` and `route`, and runs the `before`, `catch` and `finally` handlers.
+ */
+function dispatchWithRouteTable(
+    router: RouterType<IRequest, any[], Response>,
+    getTable: () => RouteTableNode
+): void {
+    // Other properties of itty-router's routers register routes, so only read its own
+    const { before = [], catch: handleError, finally: after = [] } = { ...router };
+
+    const handleRoutes = async (request: IRequest, url: URL, args: any[]): Promise<any> => {
+        const target = request.proxy ?? request;
+        for (const handler of before) {
+            const response = await handler(target, ...args);
+            if (response != null) return response;
+        }
+        for (const [method, regex, handlers, path] of matchRouteTable(getTable(), url.pathname)) {
+            const match =
+                method === request.method || method === 'ALL' ? regex.exec(url.pathname) : null;
+            if (!match) continue;
+            request.params = match.groups ?? {};
+            request.route = path ?? '';
+            for (const handler of handlers) {
+                const response = await handler(target, url, ...args);
+                if (response != null) return response;
+            }
+        }
+        return undefined;
+    };
+
+    router.fetch = async (request: RequestLike, ...args: any[]) => {
+        const iRequest = request as IRequest;
+        const url = new URL(iRequest.url);
+        const query: Record<string, string | string[]> = Object.create(null);
+        for (const [key, value] of url.searchParams) {
+            const existing = query[key];
+            query[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+        }
+        iRequest.query = query;
+
+        const target = iRequest.proxy ?? iRequest;
+        let response: any;
+        try {
+            response = await handleRoutes(iRequest, url, args);
+        } catch (error) {
+            if (!handleError) throw error;
+            response = await handleError(error as StatusError, target, ...args);
+        }
+        try {
+            for (const handler of after) {
+                response = (await handler(response, target, ...args)) ?? response;
+            }
+        } catch (error) {
+            if (!handleError) throw error;
+            response = await handleError(error as StatusError, target, ...args);
+        }
+        return response;
     };
 }
 
 /**
- * Base class for route handlers in WorkerRouter
- *
- * Extend this class to create handlers for specific routes. By default, all HTTP methods
- * throw a 405 Method Not Allowed error. Override the methods you want to support.
- *
- * Response customization:
- * - Use `ctx.response` to modify status, statusText, or headers before returning data
- * - Return a `Response` object directly for full control
- * - Return plain data for default JSON serialization
+ * Builder returned by a router's `route()` for handling a path with functions instead of
+ * a route handler class
  *
- * @typeParam E - Environment type
- * @typeParam P - Route parameters type
- * @typeParam D - Data type for middleware-set data
+ * @typeParam F - Handler function type of the router
  *
- * @category Handlers
+ * @category Routers
  *
  * @example
  * ```typescript
- * class UserHandler extends RouteHandler<Env, { id: string }> {
- *   async get(ctx) {
- *     return { userId: ctx.params.id };
- *   }
- *
- *   async post(ctx) {
- *     const body = await ctx.request.json();
- *     // Customize response
- *     ctx.response.status = 201;
- *     ctx.response.headers.set('X-Created-Id', ctx.params.id);
- *     return { userId: ctx.params.id, created: true, data: body };
- *   }
- * }
- *
- * router.defineRouteHandler('/users/:id', UserHandler);
+ * router
+ *   .route('/ping')
+ *   .get(async () => ({ pong: true }))
+ *   .post(async (ctx) => ({ echo: await ctx.request.json() }));
  * ```
  */
-export abstract class RouteHandler<
-    E extends Env = Env,
-    P extends Params = Params,
-    D = Record<string, any>,
-> {
-    protected path: string;
-    log: Logger;
-
-    constructor(path: string, options?: { log?: Logger }) {
-        this.path = path;
-
-        if (options?.log) this.log = options.log;
-        else this.log = new Logger(path, 'fatal');
-    }
+export class RouteBuilder<F> {
+    private readonly defined = new Set<HandlerMethod>();
 
     /**
-     * Define CORS configuration for this route handler.
-     * Override this method to enable CORS with dynamic configuration based on the request.
-     * The same config is automatically applied to both OPTIONS preflight and actual responses.
-     *
-     * Return undefined to use the router's default CORS config (if any).
-     *
-     * @example
-     * ```typescript
-     * class MyHandler extends RouteHandler<Env> {
-     *   cors(ctx): CorsConfig | undefined {
-     *     const origin = ctx.request.headers.get('Origin');
-     *     if (origin?.endsWith('.myapp.com')) {
-     *       return { origins: origin, credentials: true };
-     *     }
-     *     return undefined; // Use router default or no CORS
-     *   }
-     *
-     *   async get(ctx) {
-     *     return { data: 'hello' };
-     *   }
-     * }
-     * ```
+     * @param path - Route path pattern
+     * @param define - Installs a handler function for a method
      */
-    cors(ctx: Context<E, P, D>): CorsConfig | undefined {
-        return undefined;
-    }
+    constructor(
+        readonly path: string,
+        private readonly define: (method: HandlerMethod, handler: F) => void
+    ) {}
 
-    // HTTP method handlers that can be implemented by subclasses
-    async get(ctx: Context<E, P, D>): Promise<any> {
-        throw new HttpError(405, 'Method Not Allowed');
+    /** Handle GET requests (and HEAD, unless head() is defined) */
+    get(handler: F): this {
+        return this.on('get', handler);
     }
 
-    async post(ctx: Context<E, P, D>): Promise<any> {
-        throw new HttpError(405, 'Method Not Allowed');
+    /** Handle HEAD requests; the router strips the response body */
+    head(handler: F): this {
+        return this.on('head', handler);
     }
 
-    async put(ctx: Context<E, P, D>): Promise<any> {
-        throw new HttpError(405, 'Method Not Allowed');
+    /** Handle POST requests */
+    post(handler: F): this {
+        return this.on('post', handler);
     }
 
-    async delete(ctx: Context<E, P, D>): Promise<any> {
-        throw new HttpError(405, 'Method Not Allowed');
+    /** Handle PUT requests */
+    put(handler: F): this {
+        return this.on('put', handler);
     }
 
-    async patch(ctx: Context<E, P, D>): Promise<any> {
-        throw new HttpError(405, 'Method Not Allowed');
+    /** Handle DELETE requests */
+    delete(handler: F): this {
+        return this.on('delete', handler);
     }
-}
 
-/**
- * Options for WorkerRouter constructor
- *
- * @category Types
- */
-export interface WorkerRouterOptions {
-    /**
-     * CORS configuration for the router.
-     * If not provided, default CORS headers (without Access-Control-Allow-Origin) are used.
-     */
-    cors?: CorsConfig;
-}
+    /** Handle PATCH requests */
+    patch(handler: F): this {
+        return this.on('patch', handler);
+    }
 
-/**
- * Internal type for storing middleware with path patterns
- */
-interface MiddlewareEntry<E extends Env> {
-    path: string | null; // null means global (matches all)
-    method: string | null; // null means all methods
-    middleware: Middleware<E, Params, any>;
+    private on(method: HandlerMethod, handler: F): this {
+        if (this.defined.has(method)) {
+            throw new Error(
+                `Method ${method.toUpperCase()} is already defined for route '${this.path}'`
+            );
+        }
+        this.defined.add(method);
+        this.define(method, handler);
+        return this;
+    }
 }
 
 /**
@@ -303,11 +1565,45 @@ export class WorkerRouter<E extends Env> {
     /** Logger instance */
     log: Logger;
     /** Underlying itty-router instance for path matching */
-    router: ReturnType<typeof Router>;
+    router: RouterType<IRequest, any[], Response>;
+    /** Base path passed to itty-router, prepended to route paths */
+    private base: string;
     /** CORS configuration */
     corsConfig?: CorsConfig;
+    /** Error mapper for this router's routes */
+    errorMapper?: ErrorMapper<Context<E, any, any>>;
+    /** Error mappers registered with onError() and mapError(), in registration order */
+    private errorHandlers: ErrorMapper<Context<E, any, any>>[] = [];
+    /** Handler for requests no route matches */
+    notFound?: NotFoundHandler<Context<E, any, any>>;
+    /** Handler for requests whose path only matches routes with other methods */
+    methodNotAllowed?: MethodNotAllowedHandler<Context<E, any, any>>;
+    /** Format of error response bodies */
+    errorFormat?: ErrorFormat;
+    /** Maximum request body size in bytes */
+    maxBodySize?: number;
+    /** Serializers for handler data */
+    serializers?: Serializers;
     /** Registered middlewares */
     private middlewares: MiddlewareEntry<E>[] = [];
+    /** Registered route handlers and mounted routers, in registration order */
+    private routeDefinitions: (
+        | RouteDefinition<RouteHandlerClass<E>, Middleware<E, Params, any>>
+        | MountDefinition<WorkerRouter<E>>
+    )[] = [];
+    /** Scopes resolved at build time (root router first) */
+    private scopes: RouteScope<MiddlewareEntry<E>>[] = [];
+    /** Throw on conflicting routes at build time instead of warning */
+    private strict: boolean;
+    /** Route conflicts found at build time, logged on the first request */
+    private routeConflicts: RouteConflict[] = [];
+    /** Named route paths, resolved at build time */
+    private namedRoutes?: Map<string, string>;
+    /** URL builder handed to each request's context */
+    private readonly urlBuilder: UrlBuilder = (name, params, query) =>
+        this.url(name, params, query);
+    /** Routes compiled at build, for matching requests */
+    private routeTable: RouteTableNode = { children: new Map(), routes: [] };
     /** Whether the router has been built */
     private isBuilt: boolean = false;
 
@@ -324,7 +1620,16 @@ export class WorkerRouter<E extends Env> {
     ) {
         this.name = name;
         this.corsConfig = options?.cors;
+        this.errorMapper = options?.errorMapper;
+        this.notFound = options?.notFound;
+        this.methodNotAllowed = options?.methodNotAllowed;
+        this.errorFormat = options?.errorFormat;
+        this.maxBodySize = options?.maxBodySize;
+        this.serializers = options?.serializers;
+        this.strict = options?.strict ?? false;
         this.router = Router(...args);
+        dispatchWithRouteTable(this.router, () => this.routeTable);
+        this.base = args[0]?.base ?? '';
         this.log = new Logger(name, 'fatal');
     }
 
@@ -344,7 +1649,7 @@ export class WorkerRouter<E extends Env> {
      * router.use('/api/*', authMiddleware);
      * ```
      */
-    use<P extends Params = Params, D = Record<string, any>>(
+    use<P extends ParamValues = Params, D = Record<string, any>>(
         pathOrMiddleware: string | Middleware<E, P, D>,
         middleware?: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -373,7 +1678,7 @@ export class WorkerRouter<E extends Env> {
      * Register middleware for all HTTP methods on a path
      * @deprecated Use .use() instead for middleware. This will be removed in a future version.
      */
-    all<P extends Params = Params, D = Record<string, any>>(
+    all<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -384,7 +1689,7 @@ export class WorkerRouter<E extends Env> {
      * Register middleware for GET requests
      * @deprecated Use .use() for middleware or .defineRouteHandler() for route handlers.
      */
-    get<P extends Params = Params, D = Record<string, any>>(
+    get<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -399,7 +1704,7 @@ export class WorkerRouter<E extends Env> {
     /**
      * @deprecated Use .use() for middleware or .defineRouteHandler() for route handlers.
      */
-    post<P extends Params = Params, D = Record<string, any>>(
+    post<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -414,7 +1719,7 @@ export class WorkerRouter<E extends Env> {
     /**
      * @deprecated Use .use() for middleware or .defineRouteHandler() for route handlers.
      */
-    put<P extends Params = Params, D = Record<string, any>>(
+    put<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -429,7 +1734,7 @@ export class WorkerRouter<E extends Env> {
     /**
      * @deprecated Use .use() for middleware or .defineRouteHandler() for route handlers.
      */
-    delete<P extends Params = Params, D = Record<string, any>>(
+    delete<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -444,7 +1749,7 @@ export class WorkerRouter<E extends Env> {
     /**
      * @deprecated Use .use() for middleware or .defineRouteHandler() for route handlers.
      */
-    patch<P extends Params = Params, D = Record<string, any>>(
+    patch<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: Middleware<E, P, D>
     ): WorkerRouter<E> {
@@ -459,13 +1764,18 @@ export class WorkerRouter<E extends Env> {
     /**
      * Register a class-based route handler for all HTTP methods
      *
+     * The handler's params type is checked against the params in the path: declaring a
+     * param the path doesn't have is a compile error. Use {@link RouteParams} to derive the
+     * params type from the path instead of restating it.
+     *
      * @param path - Route path pattern (e.g., '/users/:id')
      * @param handler_cls - RouteHandler class to instantiate
+     * @param options - Optional route name and per-route middleware
      * @returns This router instance for chaining
      *
      * @example
      * ```typescript
-     * class UserHandler extends RouteHandler<Env, { id: string }> {
+     * class UserHandler extends RouteHandler<Env, RouteParams<'/users/:id'>> {
      *   async get(ctx) {
      *     return { userId: ctx.params.id };
      *   }
@@ -474,37 +1784,291 @@ export class WorkerRouter<E extends Env> {
      * router.defineRouteHandler('/users/:id', UserHandler);
      * ```
      */
-    defineRouteHandler<P extends Params = Params, D = Record<string, any>>(
-        path: string,
-        handler_cls: new (
+    defineRouteHandler<
+        P extends ParamValues = Params,
+        D = Record<string, any>,
+        Path extends string = string,
+    >(
+        path: Path,
+        handler_cls: (new (
             ...args: ConstructorParameters<typeof RouteHandler>
-        ) => RouteHandler<E, P, D>
+        ) => RouteHandler<E, P, D>) &
+            CheckRouteParams<Path, P>,
+        options?: RouteOptions<Middleware<E, P, D>>
+    ): WorkerRouter<E> {
+        this.routeDefinitions.push({
+            path,
+            handler_cls,
+            name: options?.name,
+            middleware: options?.middleware as RouteMiddleware<Middleware<E, Params, any>>,
+        });
+        return this;
+    }
+
+    /**
+     * Register a route handled by functions instead of a RouteHandler class
+     *
+     * Returns a builder for the route's methods. Handler functions receive the context with
+     * params typed from the path, and return data or a Response like RouteHandler methods.
+     *
+     * With `schemas`, requests are validated before the handler functions, whose context
+     * is typed from the schemas (see RouteHandler.schemas). `maxBodySize` and `serializers`
+     * override the router's for the route.
+     *
+     * @param path - Route path pattern (e.g., '/users/:id')
+     * @param options - Optional route name, per-route middleware, schemas, body size limit
+     *   and serializers
+     * @returns Builder for the route's method handlers
+     *
+     * @example
+     * ```typescript
+     * router.route('/ping').get(async () => ({ pong: true }));
+     *
+     * router
+     *   .route('/users/:id', { name: 'user' })
+     *   .get(async (ctx) => getUser(ctx.env, ctx.params.id))
+     *   .delete(async (ctx) => deleteUser(ctx.env, ctx.params.id));
+     *
+     * router
+     *   .route('/users', { schemas: { body: z.object({ name: z.string() }) } })
+     *   .post(async (ctx) => createUser(ctx.env, (await ctx.json()).name));
+     * ```
+     */
+    route<Path extends string, D = Record<string, any>, S extends RequestSchemas = {}>(
+        path: Path,
+        options?: RouteOptions<Middleware<E, RouteParams<Path>, D>> & {
+            schemas?: S;
+            maxBodySize?: number;
+            serializers?: Serializers;
+        }
+    ): RouteBuilder<
+        {} extends S
+            ? RouteFunction<E, RouteParams<Path>, D>
+            : (ctx: ValidatedContext<Context<E, RouteParams<Path>, D>, S>) => Promise<any> | any
+    > {
+        class FunctionRouteHandler extends RouteHandler<E, any, any> {
+            static schemas = options?.schemas as RouteSchemas | undefined;
+            static maxBodySize = options?.maxBodySize;
+            static serializers = options?.serializers;
+        }
+
+        this.routeDefinitions.push({
+            path,
+            handler_cls: FunctionRouteHandler,
+            name: options?.name,
+            middleware: options?.middleware as RouteMiddleware<Middleware<E, Params, any>>,
+        });
+        return new RouteBuilder(path, (method, handler: (ctx: any) => any) => {
+            FunctionRouteHandler.prototype[method] = async (ctx) => handler(ctx);
+        });
+    }
+
+    /**
+     * Register an error hook for errors thrown by this router's middleware and handlers,
+     * including those of mounted routers and groups that don't handle them
+     *
+     * Hooks run in registration order after the `errorMapper` option. Return a `Response`
+     * or an `HttpError` to use it as the error response, or `undefined` to pass the error on.
+     *
+     * @param mapper - Error hook
+     * @returns This router instance for chaining
+     *
+     * @example
+     * ```typescript
+     * router.onError((error) =>
+     *   error instanceof Error && error.message.includes('UNIQUE constraint failed')
+     *     ? new HttpError(409, 'Already exists')
+     *     : undefined
+     * );
+     * ```
+     */
+    onError(mapper: ErrorMapper<Context<E, any, any>>): WorkerRouter<E> {
+        this.errorHandlers.push(mapper);
+        return this;
+    }
+
+    /**
+     * Map errors of a class (and its subclasses) to an HTTP status or an error response
+     *
+     * A status creates an `HttpError` with the error's message. Mappings are error hooks,
+     * so they run in registration order with those added by onError().
+     *
+     * @param errorClass - Error class to map
+     * @param mapping - HTTP status, or function returning the error response
+     * @returns This router instance for chaining
+     *
+     * @example
+     * ```typescript
+     * router
+     *   .mapError(NotFoundError, 404)
+     *   .mapError(ZodError, (error) => new HttpError(400, 'Invalid input', { issues: error.issues }));
+     * ```
+     */
+    mapError<T extends Error>(
+        errorClass: ErrorClass<T>,
+        mapping: ErrorClassMapping<T, Context<E, any, any>>
     ): WorkerRouter<E> {
-        const handler = new handler_cls(path, {
+        return this.onError(mapErrorClass(errorClass, mapping));
+    }
+
+    /**
+     * Mount a child router under a path prefix
+     *
+     * The child's routes are re-based under the prefix when the parent is built. Parent
+     * middleware runs before child middleware, and the child's CORS configuration (if any)
+     * overrides the parent's for every path under the prefix.
+     *
+     * @param prefix - Path prefix for the child's routes (e.g., '/api/users')
+     * @param router - Child router to mount
+     * @returns This router instance for chaining
+     *
+     * @example
+     * ```typescript
+     * const users = new WorkerRouter<Env>('users')
+     *   .use(authMiddleware)
+     *   .defineRouteHandler('/:id', UserHandler);
+     *
+     * const router = new WorkerRouter<Env>('api')
+     *   .use(loggingMiddleware)
+     *   .mount('/users', users)
+     *   .build();
+     * ```
+     */
+    mount(prefix: string, router: WorkerRouter<E>): WorkerRouter<E> {
+        if (router === this) {
+            throw new Error('Cannot mount a router on itself');
+        }
+        this.routeDefinitions.push({ prefix, router });
+        return this;
+    }
+
+    /**
+     * Define a group of routes under a path prefix with their own middleware, CORS and
+     * error handling
+     *
+     * The callback receives a fresh router for the group, which is mounted under the prefix.
+     * Middleware registered with `group.use()` only runs for the group's routes, so there
+     * is no need to repeat the prefix in path globs.
+     *
+     * @param prefix - Path prefix for the group's routes
+     * @param optionsOrCallback - Group options (CORS, error mapper) or the group callback
+     * @param callback - Group callback (if options provided)
+     * @returns This router instance for chaining
+     *
+     * @example
+     * ```typescript
+     * router.group('/admin', { cors: { origins: 'https://admin.example.com' } }, (group) =>
+     *   group.use(adminAuth).defineRouteHandler('/users', AdminUsersHandler)
+     * );
+     * ```
+     */
+    group(
+        prefix: string,
+        optionsOrCallback: WorkerRouterOptions | ((group: WorkerRouter<E>) => void),
+        callback?: (group: WorkerRouter<E>) => void
+    ): WorkerRouter<E> {
+        const options = typeof optionsOrCallback === 'function' ? undefined : optionsOrCallback;
+        const define = typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+        if (!define) {
+            throw new Error('Group callback required when options are specified');
+        }
+
+        const group = new WorkerRouter<E>(this.name, options);
+        define(group);
+        return this.mount(prefix, group);
+    }
+
+    /**
+     * Flatten route definitions (including mounted routers) into routes and scopes
+     */
+    private resolveRoutes(
+        prefix: string,
+        parent: RouteScope<MiddlewareEntry<E>> | undefined,
+        routes: ResolvedRoute<RouteHandlerClass<E>, MiddlewareEntry<E>>[],
+        scopes: RouteScope<MiddlewareEntry<E>>[]
+    ): void {
+        const scope: RouteScope<MiddlewareEntry<E>> = {
+            prefix,
+            prefixPattern: compileScopePrefix(prefix),
+            middlewares: [
+                ...(parent?.middlewares ?? []),
+                ...this.middlewares.map((entry) => scopeMiddleware(entry, prefix)),
+            ],
+            corsConfig: this.corsConfig ?? parent?.corsConfig,
+            errorMappers: [
+                ...(this.errorMapper ? [this.errorMapper] : []),
+                ...this.errorHandlers,
+                ...(parent?.errorMappers ?? []),
+            ],
+            notFound: this.notFound ?? parent?.notFound,
+            methodNotAllowed: this.methodNotAllowed ?? parent?.methodNotAllowed,
+            errorFormat: this.errorFormat ?? parent?.errorFormat,
+            maxBodySize: this.maxBodySize ?? parent?.maxBodySize,
+            serializers: this.serializers ?? parent?.serializers,
+        };
+        scopes.push(scope);
+
+        for (const definition of this.routeDefinitions) {
+            if ('router' in definition) {
+                const childPrefix = joinPaths(prefix, definition.prefix);
+                definition.router.resolveRoutes(childPrefix, scope, routes, scopes);
+            } else {
+                routes.push({ ...definition, path: joinPaths(prefix, definition.path), scope });
+            }
+        }
+    }
+
+    /**
+     * Register a resolved route with the underlying itty-router
+     */
+    private registerRoute<P extends ParamValues = Params, D = Record<string, any>>(
+        route: ResolvedRoute<RouteHandlerClass<E>, MiddlewareEntry<E>>
+    ): void {
+        const { path, scope } = route;
+        const handler = new route.handler_cls(path, {
             log: this.log,
         });
+        const compiled = compilePath(this.base + path);
 
         // Create handler wrapper for each HTTP method (including OPTIONS)
-        const createMethodHandler = (
-            method: 'options' | 'get' | 'post' | 'put' | 'delete' | 'patch'
-        ) => {
-            return async (request: Request, env: E) => {
+        const createMethodHandler = (method: string, httpMethod: string) => {
+            // Per-route middleware runs after the router's, options before the handler class's
+            const routeMiddlewares = [
+                ...selectRouteMiddleware(route.middleware, httpMethod),
+                ...selectRouteMiddleware(route.handler_cls.middleware, httpMethod),
+            ] as Middleware<E, P, D>[];
+            const schemas = selectRouteSchemas(route.handler_cls.schemas, httpMethod);
+            const maxBodySize = route.handler_cls.maxBodySize ?? scope.maxBodySize;
+            // Responses are JSON, without negotiation, unless serializers are configured
+            const serializers = route.handler_cls.serializers ?? scope.serializers;
+
+            return async (
+                request: Request,
+                url: URL,
+                env: E,
+                executionContext?: ExecutionContext
+            ) => {
                 const start = Date.now();
+                if (env.LOG_LEVEL) this.log.setLevel(env.LOG_LEVEL);
                 const ctx = createContext<E, P, D>(
-                    request,
+                    maxBodySize === undefined ? request : limitBodySize(request, maxBodySize),
                     env,
-                    (request.params || {}) as P,
-                    this.log
+                    compiled.parse(request.params || {}) as P,
+                    this.log,
+                    this.urlBuilder,
+                    executionContext
                 );
-                if (env.LOG_LEVEL) ctx.log.setLevel(env.LOG_LEVEL);
+                this.logRouteConflicts(ctx.log);
 
-                const url = new URL(request.url);
                 ctx.log.trace('Incoming request', { method: request.method, path: url.pathname });
                 ctx.log.debug('Route matched', { path, params: ctx.params });
 
+                // Handler methods log with the request's logger, like ctx.log
+                const requestHandler = withRequestLogger(handler, ctx.log);
+
                 // Get CORS config for this handler
-                const handlerCorsConfig = handler.cors(ctx);
-                const effectiveCorsConfig = handlerCorsConfig ?? this.corsConfig;
+                const handlerCorsConfig = requestHandler.cors(ctx);
+                const effectiveCorsConfig = handlerCorsConfig ?? scope.corsConfig;
 
                 // Build cors context for dynamic origins
                 const corsCtx: CorsOriginContext<E, D> = {
@@ -514,8 +2078,39 @@ export class WorkerRouter<E extends Env> {
                 };
 
                 // Build the middleware chain
-                const matchingMiddlewares = this.getMatchingMiddlewares(request, path);
-                ctx.log.trace('Middleware chain', { count: matchingMiddlewares.length });
+                const matchingMiddlewares = this.getMatchingMiddlewares(
+                    ctx,
+                    url.pathname,
+                    scope.middlewares
+                );
+                ctx.log.trace('Middleware chain', {
+                    count: matchingMiddlewares.length + routeMiddlewares.length,
+                });
+
+                // Negotiate the response format before the chain runs, so requests accepting
+                // none of the serializers fail with 406 before any middleware or the handler
+                let selected: SelectedSerializer | undefined;
+                const negotiationCheck: Middleware<E, P, D>[] = [];
+                if (serializers !== undefined && method !== 'options') {
+                    try {
+                        selected = selectSerializer(request.headers.get('Accept'), serializers);
+                    } catch (error) {
+                        negotiationCheck.push(async () => {
+                            throw error;
+                        });
+                    }
+                }
+
+                // Reject bodies declared larger than the limit before any middleware runs
+                const bodySizeCheck: Middleware<E, P, D>[] =
+                    maxBodySize === undefined
+                        ? []
+                        : [
+                              async (ctx, next) => {
+                                  checkContentLength(ctx.request, maxBodySize);
+                                  return next();
+                              },
+                          ];
 
                 // Final handler - either OPTIONS preflight or actual method
                 const finalHandler: Middleware<E, P, D> = async (ctx) => {
@@ -526,23 +2121,55 @@ export class WorkerRouter<E extends Env> {
                             ? buildCorsHeaders(effectiveCorsConfig, requestOrigin, corsCtx)
                             : corsHeaders;
 
-                        return new Response(null, {
-                            status: 204,
-                            headers: headersToUse,
-                        });
+                        return buildOptionsResponse(
+                            getAllowedMethods(
+                                matchRouteTable(this.routeTable, url.pathname),
+                                url.pathname
+                            ),
+                            headersToUse,
+                            effectiveCorsConfig
+                        );
                     }
 
+                    if (schemas) await validateRequest(ctx, schemas, url);
                     ctx.log.trace('Executing handler', { method });
-                    const result = await handler[method](ctx);
-                    return buildResponse(result, ctx, effectiveCorsConfig, corsCtx);
+                    let result = await (requestHandler as any)[method](ctx);
+                    if (schemas && !(result instanceof Response)) {
+                        result = await validateResponse(result, ctx.response.status, schemas);
+                    }
+                    const response = buildResponse(
+                        result,
+                        ctx,
+                        effectiveCorsConfig,
+                        corsCtx,
+                        serializers,
+                        selected
+                    );
+                    if (method === 'head' && !(result instanceof Response)) {
+                        // Serialized data is fully buffered, so report the length GET would send
+                        const body = await response.clone().arrayBuffer();
+                        response.headers.set('Content-Length', String(body.byteLength));
+                    }
+                    return response;
                 };
 
                 // Execute the chain
-                const response = await this.executeChain(
+                const chainResponse = await this.executeChain(
                     ctx,
-                    [...matchingMiddlewares, finalHandler],
-                    effectiveCorsConfig
+                    [
+                        ...bodySizeCheck,
+                        ...negotiationCheck,
+                        ...matchingMiddlewares,
+                        ...routeMiddlewares,
+                        finalHandler,
+                    ],
+                    url.pathname,
+                    effectiveCorsConfig,
+                    scope.errorMappers,
+                    scope.errorFormat
                 );
+                // Strip the body after middleware ran, so they see the same response as GET
+                const response = method === 'head' ? toHeadResponse(chainResponse) : chainResponse;
 
                 const duration = Date.now() - start;
                 ctx.log.info('Request completed', {
@@ -556,51 +2183,67 @@ export class WorkerRouter<E extends Env> {
             };
         };
 
-        // Register each HTTP method (including OPTIONS for CORS preflight)
-        this.router.options(path, createMethodHandler('options'));
-        this.router.get(path, createMethodHandler('get'));
-        this.router.post(path, createMethodHandler('post'));
-        this.router.put(path, createMethodHandler('put'));
-        this.router.delete(path, createMethodHandler('delete'));
-        this.router.patch(path, createMethodHandler('patch'));
-
-        return this;
+        // Register OPTIONS for CORS preflight and only the methods the handler implements,
+        // so other handlers on overlapping paths can still match the remaining methods
+        // Routes are added with our own compiled pattern, since itty-router's doesn't support
+        // param constraints
+        const routePath = this.base + path;
+        this.router.routes.push([
+            'OPTIONS',
+            compiled.regex,
+            [createMethodHandler('options', 'OPTIONS')],
+            routePath,
+        ]);
+        const methods = getImplementedMethods(
+            handler,
+            RouteHandler.prototype,
+            route.handler_cls.methods
+        );
+        for (const [httpMethod, method] of methods) {
+            this.router.routes.push([
+                httpMethod,
+                compiled.regex,
+                [createMethodHandler(method, httpMethod)],
+                routePath,
+            ]);
+        }
     }
 
     /**
-     * Get middlewares that match the current request
+     * Log the route conflicts found at build time, once, when the log level allows
      */
-    private getMatchingMiddlewares(request: Request, path: string): Middleware<E, any, any>[] {
-        const method = request.method;
-        const url = new URL(request.url);
-
-        return this.middlewares
-            .filter((entry) => {
-                // Check method match
-                if (entry.method && entry.method !== method) {
-                    return false;
-                }
-
-                // Check path match
-                if (entry.path === null) {
-                    return true; // Global middleware
-                }
+    private logRouteConflicts(log: Logger): void {
+        for (const conflict of this.routeConflicts) {
+            log.warn('Unreachable route', { route: describeConflict(conflict) });
+        }
+        this.routeConflicts = [];
+    }
 
-                // Simple path matching (supports wildcards like /api/*)
-                const pattern = entry.path.replace(/\*/g, '.*').replace(/:[^/]+/g, '[^/]+');
-                const regex = new RegExp(`^${pattern}$`);
-                return regex.test(url.pathname);
-            })
-            .map((entry) => entry.middleware);
+    /**
+     * Get middlewares that match the current request.
+     * Params captured by their path patterns are added to ctx.params, without overriding
+     * the route's own params.
+     */
+    private getMatchingMiddlewares(
+        ctx: Context<E, any, any>,
+        pathname: string,
+        middlewares: ScopedMiddleware<MiddlewareEntry<E>>[]
+    ): Middleware<E, any, any>[] {
+        const { matching, params } = matchMiddlewares(middlewares, ctx.request.method, pathname);
+        ctx.params = { ...params, ...ctx.params };
+        return matching.map((entry) => entry.middleware);
     }
 
     /**
      * Execute the middleware chain with next() pattern
      */
-    private async executeChain<P extends Params, D>(
+    private async executeChain<P extends ParamValues, D>(
         ctx: Context<E, P, D>,
         middlewares: Middleware<E, P, D>[],
-        corsConfig?: CorsConfig<E, D>
+        pathname: string,
+        corsConfig?: CorsConfig<E, D>,
+        errorMappers: ErrorMapper<Context<E, P, D>>[] = [],
+        errorFormat?: ErrorFormat
     ): Promise<Response> {
         let index = 0;
         const corsCtx: CorsOriginContext<E, D> = {
@@ -620,19 +2263,99 @@ export class WorkerRouter<E extends Env> {
             try {
                 return await middleware(ctx, next);
             } catch (error) {
-                return buildErrorResponse(error, ctx, corsConfig, corsCtx);
+                return mapErrorResponse(
+                    error,
+                    ctx,
+                    errorMappers,
+                    corsConfig,
+                    corsCtx,
+                    errorFormat,
+                    pathname
+                );
             }
         };
 
-        try {
-            return await next();
-        } catch (error) {
-            return buildErrorResponse(error, ctx, corsConfig, corsCtx);
+        let response: Response;
+        try {
+            response = await next();
+        } catch (error) {
+            response = await mapErrorResponse(
+                error,
+                ctx,
+                errorMappers,
+                corsConfig,
+                corsCtx,
+                errorFormat,
+                pathname
+            );
+        }
+        runAfterTasks(ctx, ctx.executionContext?.waitUntil.bind(ctx.executionContext));
+        return withRequestIdHeader(response, ctx.requestId);
+    }
+
+    /**
+     * List every route this router serves, including routes of mounted routers and groups
+     *
+     * Useful for admin endpoints, route coverage assertions in tests and documentation
+     * generators. The router does not need to be built first.
+     *
+     * @returns Route descriptions in registration order
+     *
+     * @example
+     * ```typescript
+     * router.routes();
+     * // [{ path: '/users/:id', methods: ['GET', 'HEAD'], handler: 'UserHandler', ... }]
+     * ```
+     */
+    routes(): RouteInfo[] {
+        const routes: ResolvedRoute<RouteHandlerClass<E>, MiddlewareEntry<E>>[] = [];
+        this.resolveRoutes('', undefined, routes, []);
+        return routes.map((route) => describeRoute(route, RouteHandler.prototype));
+    }
+
+    /**
+     * Build the path of a named route
+     *
+     * Params are percent-encoded, and the base, mount and group prefixes are included.
+     * Handlers can use `ctx.url()`, which builds URLs from the router that handles the request.
+     *
+     * @param name - Route name given to defineRouteHandler()
+     * @param params - Route param values
+     * @param query - Optional query string values
+     * @returns The route path, with the query string if any
+     * @throws Error when the route name is unknown or a required param is missing
+     *
+     * @example
+     * ```typescript
+     * router.defineRouteHandler('/users/:id', UserHandler, { name: 'user' });
+     *
+     * router.url('user', { id: 42 }, { tab: 'posts' }); // '/users/42?tab=posts'
+     * ```
+     */
+    url(name: string, params?: UrlParams, query?: UrlQuery): string {
+        return buildRoutePath(this.getNamedRoutePath(name), params, query);
+    }
+
+    /**
+     * Find the full path of a named route, resolving routes if the router isn't built yet
+     */
+    private getNamedRoutePath(name: string): string {
+        let namedRoutes = this.namedRoutes;
+        if (!namedRoutes) {
+            const routes: ResolvedRoute<RouteHandlerClass<E>, MiddlewareEntry<E>>[] = [];
+            this.resolveRoutes('', undefined, routes, []);
+            namedRoutes = collectNamedRoutes(routes, this.base);
+        }
+
+        const path = namedRoutes.get(name);
+        if (path === undefined) {
+            throw new Error(`Unknown route name '${name}'`);
         }
+        return path;
     }
 
     /**
-     * Build the router and add 404 handler
+     * Build the router: register route handlers (including mounted routers) and add 404 handler
      *
      * @returns The underlying itty-router instance
      *
@@ -654,78 +2377,171 @@ export class WorkerRouter<E extends Env> {
             return this.router;
         }
 
-        // Handle CORS preflight requests (catch-all for routes without custom OPTIONS handlers)
-        this.router.options('*', async (request: Request, env: E) => {
-            const ctx = createContext<E, Params, Record<string, any>>(
-                request,
-                env,
-                (request.params || {}) as Params,
-                this.log
+        // Resolve route definitions (including mounted routers) and register them
+        const routes: ResolvedRoute<RouteHandlerClass<E>, MiddlewareEntry<E>>[] = [];
+        this.scopes = [];
+        this.resolveRoutes('', undefined, routes, this.scopes);
+        this.namedRoutes = collectNamedRoutes(routes, this.base);
+        for (const route of routes) {
+            this.registerRoute(route);
+        }
+
+        this.routeConflicts = findRouteConflicts(this.router.routes);
+        if (this.strict && this.routeConflicts.length > 0) {
+            throw new Error(
+                `Conflicting routes:\n${this.routeConflicts.map(describeConflict).join('\n')}`
             );
-            if (env.LOG_LEVEL) ctx.log.setLevel(env.LOG_LEVEL);
+        }
+        // Warn now when the logger already shows warnings (e.g. after router.log.setLevel());
+        // otherwise the log level comes from env, so warnings wait for the first request
+        if (this.log.isLevelEnabled('warn')) {
+            this.logRouteConflicts(this.log);
+        }
 
-            const corsCtx: CorsOriginContext<E, Record<string, any>> = {
-                request: ctx.request,
-                env: ctx.env,
-                data: ctx.data,
-            };
+        // Handle CORS preflight requests (catch-all for routes without custom OPTIONS handlers)
+        this.router.options(
+            '*',
+            async (request: Request, url: URL, env: E, executionContext?: ExecutionContext) => {
+                if (env.LOG_LEVEL) this.log.setLevel(env.LOG_LEVEL);
+                const ctx = createContext<E, Params, Record<string, any>>(
+                    request,
+                    env,
+                    (request.params || {}) as Params,
+                    this.log,
+                    this.urlBuilder,
+                    executionContext
+                );
+                this.logRouteConflicts(ctx.log);
 
-            // Build the middleware chain
-            const matchingMiddlewares = this.getMatchingMiddlewares(request, '*');
+                const corsCtx: CorsOriginContext<E, Record<string, any>> = {
+                    request: ctx.request,
+                    env: ctx.env,
+                    data: ctx.data,
+                };
 
-            // Final handler returns OPTIONS preflight response
-            const finalHandler: Middleware<E, Params, Record<string, any>> = async () => {
-                const requestOrigin = request.headers.get('Origin');
-                const headersToUse = this.corsConfig
-                    ? buildCorsHeaders(this.corsConfig, requestOrigin, corsCtx)
-                    : corsHeaders;
+                // Use the innermost mounted router's middleware and CORS for this path
+                const pathname = url.pathname;
+                const scope = findScope(this.scopes, pathname)!;
 
-                return new Response(null, {
-                    status: 204,
-                    headers: headersToUse,
-                });
-            };
+                // Build the middleware chain
+                const matchingMiddlewares = this.getMatchingMiddlewares(
+                    ctx,
+                    pathname,
+                    scope.middlewares
+                );
 
-            return this.executeChain(ctx, [...matchingMiddlewares, finalHandler], this.corsConfig);
-        });
+                // Final handler returns OPTIONS preflight response
+                const finalHandler: Middleware<E, Params, Record<string, any>> = async () => {
+                    const requestOrigin = request.headers.get('Origin');
+                    const headersToUse = scope.corsConfig
+                        ? buildCorsHeaders(scope.corsConfig, requestOrigin, corsCtx)
+                        : corsHeaders;
+
+                    return new Response(null, {
+                        status: 204,
+                        headers: headersToUse,
+                    });
+                };
+
+                return this.executeChain(
+                    ctx,
+                    [...matchingMiddlewares, finalHandler],
+                    pathname,
+                    scope.corsConfig,
+                    scope.errorMappers,
+                    scope.errorFormat
+                );
+            }
+        );
 
         // Handle 404 - Route not found
-        this.router.all('*', async (request: Request, env: E) => {
-            const ctx = createContext<E, Params, Record<string, any>>(
-                request,
-                env,
-                (request.params || {}) as Params,
-                this.log
-            );
-            if (env.LOG_LEVEL) ctx.log.setLevel(env.LOG_LEVEL);
+        this.router.all(
+            '*',
+            async (request: Request, url: URL, env: E, executionContext?: ExecutionContext) => {
+                if (env.LOG_LEVEL) this.log.setLevel(env.LOG_LEVEL);
+                const ctx = createContext<E, Params, Record<string, any>>(
+                    request,
+                    env,
+                    (request.params || {}) as Params,
+                    this.log,
+                    this.urlBuilder,
+                    executionContext
+                );
+                this.logRouteConflicts(ctx.log);
 
-            const corsCtx: CorsOriginContext<E, Record<string, any>> = {
-                request: ctx.request,
-                env: ctx.env,
-                data: ctx.data,
-            };
+                const corsCtx: CorsOriginContext<E, Record<string, any>> = {
+                    request: ctx.request,
+                    env: ctx.env,
+                    data: ctx.data,
+                };
 
-            // Build the middleware chain
-            const matchingMiddlewares = this.getMatchingMiddlewares(request, '*');
+                // Use the innermost mounted router's middleware and CORS for this path
+                const pathname = url.pathname;
+                const scope = findScope(this.scopes, pathname)!;
 
-            // Final handler returns 404
-            const finalHandler: Middleware<E, Params, Record<string, any>> = async () => {
-                const requestOrigin = request.headers.get('Origin');
-                const corsHeadersToApply = this.corsConfig
-                    ? buildCorsHeaders(this.corsConfig, requestOrigin, corsCtx)
-                    : corsHeaders;
+                // Build the middleware chain
+                const matchingMiddlewares = this.getMatchingMiddlewares(
+                    ctx,
+                    pathname,
+                    scope.middlewares
+                );
 
-                return new Response(JSON.stringify({ error: 'Not found' }), {
-                    status: 404,
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...corsHeadersToApply,
-                    },
-                });
-            };
+                // Final handler returns 405 if routes match the path with other methods, else 404
+                const finalHandler: Middleware<E, Params, Record<string, any>> = async (ctx) => {
+                    const allowedMethods = getAllowedMethods(
+                        matchRouteTable(this.routeTable, pathname),
+                        pathname
+                    );
+                    if (allowedMethods.length > 0 && scope.methodNotAllowed) {
+                        return scope.methodNotAllowed(ctx, allowedMethods);
+                    }
+                    if (allowedMethods.length > 0) {
+                        throw new HttpError(405, 'Method Not Allowed', null, {
+                            Allow: allowedMethods.join(', '),
+                        });
+                    }
+                    if (scope.notFound) {
+                        return scope.notFound(ctx);
+                    }
 
-            return this.executeChain(ctx, [...matchingMiddlewares, finalHandler], this.corsConfig);
-        });
+                    const requestOrigin = request.headers.get('Origin');
+                    const corsHeadersToApply = scope.corsConfig
+                        ? buildCorsHeaders(scope.corsConfig, requestOrigin, corsCtx)
+                        : corsHeaders;
+
+                    if (scope.errorFormat === 'problem') {
+                        return buildProblemResponse(
+                            ctx,
+                            pathname,
+                            404,
+                            undefined,
+                            { requestId: ctx.requestId },
+                            corsHeadersToApply
+                        );
+                    }
+                    const body = { error: 'Not found', requestId: ctx.requestId };
+                    return new Response(JSON.stringify(body), {
+                        status: 404,
+                        headers: {
+                            'Content-Type': 'application/json',
+                            ...corsHeadersToApply,
+                        },
+                    });
+                };
+
+                const response = await this.executeChain(
+                    ctx,
+                    [...matchingMiddlewares, finalHandler],
+                    pathname,
+                    scope.corsConfig,
+                    scope.errorMappers,
+                    scope.errorFormat
+                );
+                return request.method === 'HEAD' ? toHeadResponse(response) : response;
+            }
+        );
+
+        this.routeTable = compileRouteTable(this.router.routes);
 
         this.isBuilt = true;
         return this.router;
@@ -735,13 +2551,15 @@ export class WorkerRouter<E extends Env> {
 /**
  * Context for Durable Object route handlers.
  * Contains per-request data only - DO instance data (storage, env) is on the handler's `this`.
+ * The body helpers (`ctx.body()`, `ctx.json()`, `ctx.form()`, `ctx.text()`) parse the
+ * request body once and cache the result.
  *
  * @typeParam P - Route parameters type
  * @typeParam D - Data type for middleware-set data
  *
  * @category Context
  */
-export interface DurableObjectContext<P = Params, D = Record<string, any>> {
+export interface DurableObjectContext<P = Params, D = Record<string, any>> extends BodyReader {
     /** Original incoming request */
     request: Request;
 
@@ -759,24 +2577,55 @@ export interface DurableObjectContext<P = Params, D = Record<string, any>> {
 
     /** Logger instance */
     log: Logger;
+
+    /**
+     * Build the path of a named route (e.g., `ctx.url('item', { id: 42 })`).
+     * Throws for unknown route names and missing params.
+     */
+    url: UrlBuilder;
+
+    /** Request ID, adopted from the request headers or generated */
+    requestId: string;
+
+    /** W3C trace context; forward it with `traceHeaders(ctx)` */
+    trace: TraceContext;
+
+    /**
+     * Schedule a task to run after the response is sent. Best effort: the task is passed to
+     * `state.waitUntil`, but the runtime may evict the Durable Object before it finishes.
+     */
+    after(task: AfterTask): void;
 }
 
 /**
  * Creates a Context object for a Durable Object request.
  * Contains only per-request data - DO instance data is on the handler's `this`.
  */
-export function createDurableObjectContext<P extends Params, D = Record<string, any>>(
+export function createDurableObjectContext<P extends ParamValues, D = Record<string, any>>(
     request: Request,
     params: P,
-    log: Logger
+    log: Logger,
+    url: UrlBuilder = noNamedRoutes
 ): DurableObjectContext<P, D> {
-    return {
+    const trace = createTraceContext(request);
+    const requestId = getRequestId(request, trace);
+    const tasks: AfterTask[] = [];
+    const ctx: DurableObjectContext<P, D> = {
         request,
         params,
         data: {} as D,
         response: new ResponseContext(),
-        log,
+        log: log.child({ requestId }),
+        url,
+        requestId,
+        trace,
+        after: (task) => {
+            tasks.push(task);
+        },
+        ...createBodyReader(request),
     };
+    afterTasks.set(ctx, tasks);
+    return ctx;
 }
 
 /**
@@ -804,12 +2653,24 @@ export type DurableObjectMiddleware<P = Params, D = Record<string, any>> = (
     next: () => Promise<Response>
 ) => Promise<Response>;
 
+/**
+ * Route handler function registered with DurableObjectRouter's `route()`.
+ * Receives (ctx, state) and returns data or a Response, like DurableObjectRouteHandler methods.
+ *
+ * @category Types
+ */
+export type DurableObjectRouteFunction<P = Params, D = Record<string, any>> = (
+    ctx: DurableObjectContext<P, D>,
+    state: DurableObjectState
+) => Promise<any> | any;
+
 /**
  * Base class for route handlers in DurableObjectRouter
  *
  * Extend this class to create handlers for Durable Object routes with access to storage and environment.
  * The handler instance has access to `this.storage`, `this.id`, `this.state`, and `this.env`.
- * By default, all HTTP methods throw a 405 Method Not Allowed error. Override the methods you want to support.
+ * Override the methods you want to support: only those are registered with the router, and requests
+ * using other methods get a 405 Method Not Allowed response with an `Allow` header.
  *
  * Response customization:
  * - Use `ctx.response` to modify status, statusText, or headers before returning data
@@ -841,10 +2702,11 @@ export type DurableObjectMiddleware<P = Params, D = Record<string, any>> = (
  */
 export abstract class DurableObjectRouteHandler<
     E extends Env = Env,
-    P extends Params = Params,
+    P extends ParamValues = Params,
     D = Record<string, any>,
 > {
     protected path: string;
+    /** Logger; in handler methods, the request's logger (with its `requestId`) like `ctx.log` */
     log: Logger;
 
     /** The raw DurableObjectState - use for blockConcurrencyWhile, etc. */
@@ -877,11 +2739,48 @@ export abstract class DurableObjectRouteHandler<
         return undefined;
     }
 
+    /**
+     * Extension HTTP methods served by this handler, mapped to the names of the instance
+     * methods that handle them (e.g. `{ QUERY: 'query' }`).
+     */
+    static methods?: Record<string, string>;
+
+    /**
+     * Middleware that runs for this handler's routes only, after the router's middleware
+     * and any middleware passed to defineRouteHandler() (a list or lists keyed by method).
+     */
+    static middleware?: RouteMiddleware<DurableObjectMiddleware<any, any>>;
+
+    /**
+     * Standard Schema schemas for the params, query, body and responses of this handler's
+     * routes, validated before the handler method (see RouteHandler.schemas).
+     */
+    static schemas?: RouteSchemas;
+
+    /**
+     * Maximum request body size in bytes for this handler's routes, overriding the router's
+     * `maxBodySize`.
+     */
+    static maxBodySize?: number;
+
+    /**
+     * Serializers for this handler's data, replacing the router's `serializers` (see
+     * RouteHandler.serializers).
+     */
+    static serializers?: Serializers;
+
     // HTTP method handlers that can be implemented by subclasses
     async get(ctx: DurableObjectContext<P, D>): Promise<any> {
         throw new HttpError(405, 'Method Not Allowed');
     }
 
+    /**
+     * Handle HEAD requests. Runs get() by default; the router strips the response body.
+     */
+    async head(ctx: DurableObjectContext<P, D>): Promise<any> {
+        return this.get(ctx);
+    }
+
     async post(ctx: DurableObjectContext<P, D>): Promise<any> {
         throw new HttpError(405, 'Method Not Allowed');
     }
@@ -910,6 +2809,53 @@ export interface DurableObjectRouterOptions {
      * If not provided, default CORS headers (without Access-Control-Allow-Origin) are used.
      */
     cors?: CorsConfig;
+
+    /**
+     * Error mapper for errors thrown by this router's middleware and route handlers.
+     * Mappers of mounted routers and groups run before their parent's mapper.
+     */
+    errorMapper?: ErrorMapper<DurableObjectContext<any, any>>;
+
+    /**
+     * Handler for requests no route matches (default: JSON 404).
+     * Mounted routers and groups can set their own for paths under their prefix.
+     */
+    notFound?: NotFoundHandler<DurableObjectContext<any, any>>;
+
+    /**
+     * Handler for requests whose path only matches routes with other methods (default: 405
+     * error with an `Allow` header). Mounted routers and groups can set their own.
+     */
+    methodNotAllowed?: MethodNotAllowedHandler<DurableObjectContext<any, any>>;
+
+    /**
+     * Format of error response bodies, including the built-in 404 (default: 'json').
+     * Mounted routers and groups use their parent's format unless they set their own.
+     */
+    errorFormat?: ErrorFormat;
+
+    /**
+     * Maximum request body size in bytes (default: no limit). Larger requests get a 413
+     * before the handler runs. Mounted routers and groups use their parent's limit unless
+     * they set their own, and handler classes can set `static maxBodySize`.
+     */
+    maxBodySize?: number;
+
+    /**
+     * Serializers for handler data, keyed by the Content-Type they produce, in order of
+     * preference (e.g. `builtinSerializers`). The request's Accept header selects one,
+     * and requests accepting none of them get a 406. Without serializers, handler data is
+     * sent as JSON whatever the Accept header. Mounted routers and groups use their
+     * parent's serializers unless they set their own, and handler classes can set
+     * `static serializers`.
+     */
+    serializers?: Serializers;
+
+    /**
+     * Throw from build() when a route duplicates or is shadowed by an earlier route,
+     * instead of logging a warning. Only the root router's setting applies.
+     */
+    strict?: boolean;
 }
 
 /**
@@ -952,15 +2898,47 @@ export class DurableObjectRouter<E extends Env> {
     /** Router name for logging */
     name: string;
     /** Underlying itty-router instance */
-    router: ReturnType<typeof Router>;
+    router: RouterType<IRequest, any[], Response>;
+    /** Base path passed to itty-router, prepended to route paths */
+    private base: string;
     /** Durable Object state */
     doState: DurableObjectState;
     /** Environment bindings */
     env: E;
     /** CORS configuration */
     corsConfig?: CorsConfig;
+    /** Error mapper for this router's routes */
+    errorMapper?: ErrorMapper<DurableObjectContext<any, any>>;
+    /** Error mappers registered with onError() and mapError(), in registration order */
+    private errorHandlers: ErrorMapper<DurableObjectContext<any, any>>[] = [];
+    /** Handler for requests no route matches */
+    notFound?: NotFoundHandler<DurableObjectContext<any, any>>;
+    /** Handler for requests whose path only matches routes with other methods */
+    methodNotAllowed?: MethodNotAllowedHandler<DurableObjectContext<any, any>>;
+    /** Format of error response bodies */
+    errorFormat?: ErrorFormat;
+    /** Maximum request body size in bytes */
+    maxBodySize?: number;
+    /** Serializers for handler data */
+    serializers?: Serializers;
     /** Registered middlewares */
     private middlewares: DurableObjectMiddlewareEntry[] = [];
+    /** Registered route handlers and mounted routers, in registration order */
+    private routeDefinitions: (
+        | RouteDefinition<DurableObjectRouteHandlerClass<E>, DurableObjectMiddleware<Params, any>>
+        | MountDefinition<DurableObjectRouter<E>>
+    )[] = [];
+    /** Scopes resolved at build time (root router first) */
+    private scopes: RouteScope<DurableObjectMiddlewareEntry>[] = [];
+    /** Throw on conflicting routes at build time instead of warning */
+    private strict: boolean;
+    /** Named route paths, resolved at build time */
+    private namedRoutes?: Map<string, string>;
+    /** URL builder handed to each request's context */
+    private readonly urlBuilder: UrlBuilder = (name, params, query) =>
+        this.url(name, params, query);
+    /** Routes compiled at build, for matching requests */
+    private routeTable: RouteTableNode = { children: new Map(), routes: [] };
     /** Whether the router has been built */
     private isBuilt: boolean = false;
 
@@ -975,7 +2953,16 @@ export class DurableObjectRouter<E extends Env> {
         this.doState = doState;
         this.env = env;
         this.corsConfig = options?.cors;
+        this.errorMapper = options?.errorMapper;
+        this.notFound = options?.notFound;
+        this.methodNotAllowed = options?.methodNotAllowed;
+        this.errorFormat = options?.errorFormat;
+        this.maxBodySize = options?.maxBodySize;
+        this.serializers = options?.serializers;
+        this.strict = options?.strict ?? false;
         this.router = Router(...args);
+        dispatchWithRouteTable(this.router, () => this.routeTable);
+        this.base = args[0]?.base ?? '';
         this.log = new Logger(name, 'fatal');
         if (env.LOG_LEVEL) this.log.setLevel(env.LOG_LEVEL);
     }
@@ -983,7 +2970,7 @@ export class DurableObjectRouter<E extends Env> {
     /**
      * Register global middleware or path-specific middleware
      */
-    use<P extends Params = Params, D = Record<string, any>>(
+    use<P extends ParamValues = Params, D = Record<string, any>>(
         pathOrMiddleware: string | DurableObjectMiddleware<P, D>,
         middleware?: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1007,7 +2994,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() instead */
-    all<P extends Params = Params, D = Record<string, any>>(
+    all<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1015,7 +3002,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() or .defineRouteHandler() */
-    get<P extends Params = Params, D = Record<string, any>>(
+    get<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1028,7 +3015,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() or .defineRouteHandler() */
-    post<P extends Params = Params, D = Record<string, any>>(
+    post<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1041,7 +3028,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() or .defineRouteHandler() */
-    put<P extends Params = Params, D = Record<string, any>>(
+    put<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1054,7 +3041,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() or .defineRouteHandler() */
-    delete<P extends Params = Params, D = Record<string, any>>(
+    delete<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1067,7 +3054,7 @@ export class DurableObjectRouter<E extends Env> {
     }
 
     /** @deprecated Use .use() or .defineRouteHandler() */
-    patch<P extends Params = Params, D = Record<string, any>>(
+    patch<P extends ParamValues = Params, D = Record<string, any>>(
         path: string,
         middleware: DurableObjectMiddleware<P, D>
     ): DurableObjectRouter<E> {
@@ -1079,37 +3066,212 @@ export class DurableObjectRouter<E extends Env> {
         return this;
     }
 
-    defineRouteHandler<P extends Params = Params, D = Record<string, any>>(
-        path: string,
-        handler_cls: new (
+    defineRouteHandler<
+        P extends ParamValues = Params,
+        D = Record<string, any>,
+        Path extends string = string,
+    >(
+        path: Path,
+        handler_cls: (new (
             doState: DurableObjectState,
             env: E,
             path: string,
             options?: { log?: Logger }
-        ) => DurableObjectRouteHandler<E, P, D>
+        ) => DurableObjectRouteHandler<E, P, D>) &
+            CheckRouteParams<Path, P>,
+        options?: RouteOptions<DurableObjectMiddleware<P, D>>
+    ): DurableObjectRouter<E> {
+        this.routeDefinitions.push({
+            path,
+            handler_cls,
+            name: options?.name,
+            middleware: options?.middleware as RouteMiddleware<
+                DurableObjectMiddleware<Params, any>
+            >,
+        });
+        return this;
+    }
+
+    /**
+     * Register a route handled by functions instead of a DurableObjectRouteHandler class.
+     * Handler functions receive (ctx, state) and return data or a Response. With `schemas`,
+     * requests are validated first and the context is typed from the schemas. `maxBodySize`
+     * and `serializers` override the router's for the route.
+     *
+     * @example
+     * ```typescript
+     * router.route('/count').get(async (ctx, state) => ({
+     *   count: (await state.storage.get('count')) ?? 0,
+     * }));
+     * ```
+     */
+    route<Path extends string, D = Record<string, any>, S extends RequestSchemas = {}>(
+        path: Path,
+        options?: RouteOptions<DurableObjectMiddleware<RouteParams<Path>, D>> & {
+            schemas?: S;
+            maxBodySize?: number;
+            serializers?: Serializers;
+        }
+    ): RouteBuilder<
+        {} extends S
+            ? DurableObjectRouteFunction<RouteParams<Path>, D>
+            : (
+                  ctx: ValidatedContext<DurableObjectContext<RouteParams<Path>, D>, S>,
+                  state: DurableObjectState
+              ) => Promise<any> | any
+    > {
+        class FunctionRouteHandler extends DurableObjectRouteHandler<E, any, any> {
+            static schemas = options?.schemas as RouteSchemas | undefined;
+            static maxBodySize = options?.maxBodySize;
+            static serializers = options?.serializers;
+        }
+
+        this.routeDefinitions.push({
+            path,
+            handler_cls: FunctionRouteHandler,
+            name: options?.name,
+            middleware: options?.middleware as RouteMiddleware<
+                DurableObjectMiddleware<Params, any>
+            >,
+        });
+        return new RouteBuilder(path, (method, handler: (ctx: any, state: any) => any) => {
+            FunctionRouteHandler.prototype[method] = async function (
+                this: FunctionRouteHandler,
+                ctx
+            ) {
+                return handler(ctx, this.state);
+            };
+        });
+    }
+
+    /**
+     * Register an error hook for errors thrown by this router's middleware and handlers.
+     * Hooks run in registration order after the `errorMapper` option.
+     */
+    onError(mapper: ErrorMapper<DurableObjectContext<any, any>>): DurableObjectRouter<E> {
+        this.errorHandlers.push(mapper);
+        return this;
+    }
+
+    /**
+     * Map errors of a class (and its subclasses) to an HTTP status or an error response
+     */
+    mapError<T extends Error>(
+        errorClass: ErrorClass<T>,
+        mapping: ErrorClassMapping<T, DurableObjectContext<any, any>>
+    ): DurableObjectRouter<E> {
+        return this.onError(mapErrorClass(errorClass, mapping));
+    }
+
+    /**
+     * Mount a child router under a path prefix
+     *
+     * The child's routes are re-based under the prefix and handled with this router's
+     * Durable Object state. Parent middleware runs before child middleware, and the child's
+     * CORS configuration (if any) overrides the parent's for every path under the prefix.
+     */
+    mount(prefix: string, router: DurableObjectRouter<E>): DurableObjectRouter<E> {
+        if (router === this) {
+            throw new Error('Cannot mount a router on itself');
+        }
+        this.routeDefinitions.push({ prefix, router });
+        return this;
+    }
+
+    /**
+     * Define a group of routes under a path prefix with their own middleware, CORS and
+     * error handling
+     */
+    group(
+        prefix: string,
+        optionsOrCallback: DurableObjectRouterOptions | ((group: DurableObjectRouter<E>) => void),
+        callback?: (group: DurableObjectRouter<E>) => void
     ): DurableObjectRouter<E> {
-        const handler = new handler_cls(this.doState, this.env, path, {
+        const options = typeof optionsOrCallback === 'function' ? undefined : optionsOrCallback;
+        const define = typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+        if (!define) {
+            throw new Error('Group callback required when options are specified');
+        }
+
+        const group = new DurableObjectRouter<E>(this.doState, this.env, this.name, options);
+        define(group);
+        return this.mount(prefix, group);
+    }
+
+    private resolveRoutes(
+        prefix: string,
+        parent: RouteScope<DurableObjectMiddlewareEntry> | undefined,
+        routes: ResolvedRoute<DurableObjectRouteHandlerClass<E>, DurableObjectMiddlewareEntry>[],
+        scopes: RouteScope<DurableObjectMiddlewareEntry>[]
+    ): void {
+        const scope: RouteScope<DurableObjectMiddlewareEntry> = {
+            prefix,
+            prefixPattern: compileScopePrefix(prefix),
+            middlewares: [
+                ...(parent?.middlewares ?? []),
+                ...this.middlewares.map((entry) => scopeMiddleware(entry, prefix)),
+            ],
+            corsConfig: this.corsConfig ?? parent?.corsConfig,
+            errorMappers: [
+                ...(this.errorMapper ? [this.errorMapper] : []),
+                ...this.errorHandlers,
+                ...(parent?.errorMappers ?? []),
+            ],
+            notFound: this.notFound ?? parent?.notFound,
+            methodNotAllowed: this.methodNotAllowed ?? parent?.methodNotAllowed,
+            errorFormat: this.errorFormat ?? parent?.errorFormat,
+            maxBodySize: this.maxBodySize ?? parent?.maxBodySize,
+            serializers: this.serializers ?? parent?.serializers,
+        };
+        scopes.push(scope);
+
+        for (const definition of this.routeDefinitions) {
+            if ('router' in definition) {
+                const childPrefix = joinPaths(prefix, definition.prefix);
+                definition.router.resolveRoutes(childPrefix, scope, routes, scopes);
+            } else {
+                routes.push({ ...definition, path: joinPaths(prefix, definition.path), scope });
+            }
+        }
+    }
+
+    private registerRoute<P extends ParamValues = Params, D = Record<string, any>>(
+        route: ResolvedRoute<DurableObjectRouteHandlerClass<E>, DurableObjectMiddlewareEntry>
+    ): void {
+        const { path, scope } = route;
+        const handler = new route.handler_cls(this.doState, this.env, path, {
             log: this.log,
         });
+        const compiled = compilePath(this.base + path);
 
         // Create handler wrapper for each HTTP method (including OPTIONS)
-        const createMethodHandler = (
-            method: 'options' | 'get' | 'post' | 'put' | 'delete' | 'patch'
-        ) => {
-            return async (request: Request) => {
+        const createMethodHandler = (method: string, httpMethod: string) => {
+            // Per-route middleware runs after the router's, options before the handler class's
+            const routeMiddlewares = [
+                ...selectRouteMiddleware(route.middleware, httpMethod),
+                ...selectRouteMiddleware(route.handler_cls.middleware, httpMethod),
+            ] as DurableObjectMiddleware<P, D>[];
+            const schemas = selectRouteSchemas(route.handler_cls.schemas, httpMethod);
+            const maxBodySize = route.handler_cls.maxBodySize ?? scope.maxBodySize;
+            // Responses are JSON, without negotiation, unless serializers are configured
+            const serializers = route.handler_cls.serializers ?? scope.serializers;
+
+            return async (request: Request, url: URL) => {
                 const start = Date.now();
                 const ctx = createDurableObjectContext<P, D>(
-                    request,
-                    (request.params || {}) as P,
-                    this.log
+                    maxBodySize === undefined ? request : limitBodySize(request, maxBodySize),
+                    compiled.parse(request.params || {}) as P,
+                    this.log,
+                    this.urlBuilder
                 );
 
-                const url = new URL(request.url);
                 ctx.log.trace('Incoming request', { method: request.method, path: url.pathname });
                 ctx.log.debug('Route matched', { path, params: ctx.params });
 
-                const handlerCorsConfig = handler.cors(ctx);
-                const effectiveCorsConfig = handlerCorsConfig ?? this.corsConfig;
+                // Handler methods log with the request's logger, like ctx.log
+                const requestHandler = withRequestLogger(handler, ctx.log);
+                const handlerCorsConfig = requestHandler.cors(ctx);
+                const effectiveCorsConfig = handlerCorsConfig ?? scope.corsConfig;
 
                 // Build cors context for dynamic origins (env comes from this.env for DOs)
                 const corsCtx: CorsOriginContext<E, D> = {
@@ -1118,8 +3280,39 @@ export class DurableObjectRouter<E extends Env> {
                     data: ctx.data,
                 };
 
-                const matchingMiddlewares = this.getMatchingMiddlewares(request, path);
-                ctx.log.trace('Middleware chain', { count: matchingMiddlewares.length });
+                const matchingMiddlewares = this.getMatchingMiddlewares(
+                    ctx,
+                    url.pathname,
+                    scope.middlewares
+                );
+                ctx.log.trace('Middleware chain', {
+                    count: matchingMiddlewares.length + routeMiddlewares.length,
+                });
+
+                // Negotiate the response format before the chain runs, so requests accepting
+                // none of the serializers fail with 406 before any middleware or the handler
+                let selected: SelectedSerializer | undefined;
+                const negotiationCheck: DurableObjectMiddleware<P, D>[] = [];
+                if (serializers !== undefined && method !== 'options') {
+                    try {
+                        selected = selectSerializer(request.headers.get('Accept'), serializers);
+                    } catch (error) {
+                        negotiationCheck.push(async () => {
+                            throw error;
+                        });
+                    }
+                }
+
+                // Reject bodies declared larger than the limit before any middleware runs
+                const bodySizeCheck: DurableObjectMiddleware<P, D>[] =
+                    maxBodySize === undefined
+                        ? []
+                        : [
+                              async (ctx, _state, next) => {
+                                  checkContentLength(ctx.request, maxBodySize);
+                                  return next();
+                              },
+                          ];
 
                 // Final handler - either OPTIONS preflight or actual method
                 const finalHandler: DurableObjectMiddleware<P, D> = async (ctx, state) => {
@@ -1130,23 +3323,55 @@ export class DurableObjectRouter<E extends Env> {
                             ? buildCorsHeaders(effectiveCorsConfig, requestOrigin, corsCtx)
                             : corsHeaders;
 
-                        return new Response(null, {
-                            status: 204,
-                            headers: headersToUse,
-                        });
+                        return buildOptionsResponse(
+                            getAllowedMethods(
+                                matchRouteTable(this.routeTable, url.pathname),
+                                url.pathname
+                            ),
+                            headersToUse,
+                            effectiveCorsConfig
+                        );
                     }
 
+                    if (schemas) await validateRequest(ctx, schemas, url);
                     ctx.log.trace('Executing handler', { method });
-                    const result = await handler[method](ctx);
-                    return buildResponse(result, ctx, effectiveCorsConfig, corsCtx);
+                    let result = await (requestHandler as any)[method](ctx);
+                    if (schemas && !(result instanceof Response)) {
+                        result = await validateResponse(result, ctx.response.status, schemas);
+                    }
+                    const response = buildResponse(
+                        result,
+                        ctx,
+                        effectiveCorsConfig,
+                        corsCtx,
+                        serializers,
+                        selected
+                    );
+                    if (method === 'head' && !(result instanceof Response)) {
+                        // Serialized data is fully buffered, so report the length GET would send
+                        const body = await response.clone().arrayBuffer();
+                        response.headers.set('Content-Length', String(body.byteLength));
+                    }
+                    return response;
                 };
 
-                const response = await this.executeChain(
+                const chainResponse = await this.executeChain(
                     ctx,
-                    [...matchingMiddlewares, finalHandler],
+                    [
+                        ...bodySizeCheck,
+                        ...negotiationCheck,
+                        ...matchingMiddlewares,
+                        ...routeMiddlewares,
+                        finalHandler,
+                    ],
+                    url.pathname,
                     effectiveCorsConfig,
-                    corsCtx
+                    corsCtx,
+                    scope.errorMappers,
+                    scope.errorFormat
                 );
+                // Strip the body after middleware ran, so they see the same response as GET
+                const response = method === 'head' ? toHeadResponse(chainResponse) : chainResponse;
 
                 const duration = Date.now() - start;
                 ctx.log.info('Request completed', {
@@ -1160,44 +3385,53 @@ export class DurableObjectRouter<E extends Env> {
             };
         };
 
-        // Register each HTTP method (including OPTIONS for CORS preflight)
-        this.router.options(path, createMethodHandler('options'));
-        this.router.get(path, createMethodHandler('get'));
-        this.router.post(path, createMethodHandler('post'));
-        this.router.put(path, createMethodHandler('put'));
-        this.router.delete(path, createMethodHandler('delete'));
-        this.router.patch(path, createMethodHandler('patch'));
-
-        return this;
+        // Register OPTIONS for CORS preflight and only the methods the handler implements,
+        // so other handlers on overlapping paths can still match the remaining methods
+        // Routes are added with our own compiled pattern, since itty-router's doesn't support
+        // param constraints
+        const routePath = this.base + path;
+        this.router.routes.push([
+            'OPTIONS',
+            compiled.regex,
+            [createMethodHandler('options', 'OPTIONS')],
+            routePath,
+        ]);
+        const methods = getImplementedMethods(
+            handler,
+            DurableObjectRouteHandler.prototype,
+            route.handler_cls.methods
+        );
+        for (const [httpMethod, method] of methods) {
+            this.router.routes.push([
+                httpMethod,
+                compiled.regex,
+                [createMethodHandler(method, httpMethod)],
+                routePath,
+            ]);
+        }
     }
 
+    /**
+     * Get middlewares that match the current request, adding their path params to ctx.params
+     */
     private getMatchingMiddlewares(
-        request: Request,
-        path: string
-    ): DurableObjectMiddleware<Params, any>[] {
-        const method = request.method;
-        const url = new URL(request.url);
-
-        return this.middlewares
-            .filter((entry) => {
-                if (entry.method && entry.method !== method) {
-                    return false;
-                }
-                if (entry.path === null) {
-                    return true;
-                }
-                const pattern = entry.path.replace(/\*/g, '.*').replace(/:[^/]+/g, '[^/]+');
-                const regex = new RegExp(`^${pattern}$`);
-                return regex.test(url.pathname);
-            })
-            .map((entry) => entry.middleware);
+        ctx: DurableObjectContext<any, any>,
+        pathname: string,
+        middlewares: ScopedMiddleware<DurableObjectMiddlewareEntry>[]
+    ): DurableObjectMiddleware<any, any>[] {
+        const { matching, params } = matchMiddlewares(middlewares, ctx.request.method, pathname);
+        ctx.params = { ...params, ...ctx.params };
+        return matching.map((entry) => entry.middleware);
     }
 
-    private async executeChain<P extends Params, D>(
+    private async executeChain<P extends ParamValues, D>(
         ctx: DurableObjectContext<P, D>,
         middlewares: DurableObjectMiddleware<P, D>[],
+        pathname: string,
         corsConfig?: CorsConfig<E, D>,
-        corsCtx?: CorsOriginContext<E, D>
+        corsCtx?: CorsOriginContext<E, D>,
+        errorMappers: ErrorMapper<DurableObjectContext<P, D>>[] = [],
+        errorFormat?: ErrorFormat
     ): Promise<Response> {
         let index = 0;
 
@@ -1211,15 +3445,78 @@ export class DurableObjectRouter<E extends Env> {
             try {
                 return await middleware(ctx, this.doState, next);
             } catch (error) {
-                return buildErrorResponse(error, ctx, corsConfig, corsCtx);
+                return mapErrorResponse(
+                    error,
+                    ctx,
+                    errorMappers,
+                    corsConfig,
+                    corsCtx,
+                    errorFormat,
+                    pathname
+                );
             }
         };
 
+        let response: Response;
         try {
-            return await next();
+            response = await next();
         } catch (error) {
-            return buildErrorResponse(error, ctx, corsConfig, corsCtx);
+            response = await mapErrorResponse(
+                error,
+                ctx,
+                errorMappers,
+                corsConfig,
+                corsCtx,
+                errorFormat,
+                pathname
+            );
+        }
+        runAfterTasks(ctx, (promise) => this.doState.waitUntil(promise));
+        return withRequestIdHeader(response, ctx.requestId);
+    }
+
+    /**
+     * List every route this router serves, including routes of mounted routers and groups
+     *
+     * @returns Route descriptions in registration order
+     */
+    routes(): RouteInfo[] {
+        const routes: ResolvedRoute<
+            DurableObjectRouteHandlerClass<E>,
+            DurableObjectMiddlewareEntry
+        >[] = [];
+        this.resolveRoutes('', undefined, routes, []);
+        return routes.map((route) => describeRoute(route, DurableObjectRouteHandler.prototype));
+    }
+
+    /**
+     * Build the path of a named route, including mount and group prefixes
+     *
+     * @throws Error when the route name is unknown or a required param is missing
+     */
+    url(name: string, params?: UrlParams, query?: UrlQuery): string {
+        return buildRoutePath(this.getNamedRoutePath(name), params, query);
+    }
+
+    /**
+     * Find the full path of a named route, resolving routes if the router isn't built yet
+     */
+    private getNamedRoutePath(name: string): string {
+        let namedRoutes = this.namedRoutes;
+        if (!namedRoutes) {
+            const routes: ResolvedRoute<
+                DurableObjectRouteHandlerClass<E>,
+                DurableObjectMiddlewareEntry
+            >[] = [];
+            this.resolveRoutes('', undefined, routes, []);
+            namedRoutes = collectNamedRoutes(routes, this.base);
+        }
+
+        const path = namedRoutes.get(name);
+        if (path === undefined) {
+            throw new Error(`Unknown route name '${name}'`);
         }
+        return path;
     }
 
     build(): DurableObjectRouter<E>['router'] {
@@ -1227,12 +3524,33 @@ export class DurableObjectRouter<E extends Env> {
             return this.router;
         }
 
+        // Resolve route definitions (including mounted routers) and register them
+        const routes: ResolvedRoute<
+            DurableObjectRouteHandlerClass<E>,
+            DurableObjectMiddlewareEntry
+        >[] = [];
+        this.scopes = [];
+        this.resolveRoutes('', undefined, routes, this.scopes);
+        this.namedRoutes = collectNamedRoutes(routes, this.base);
+        for (const route of routes) {
+            this.registerRoute(route);
+        }
+
+        const conflicts = findRouteConflicts(this.router.routes);
+        if (this.strict && conflicts.length > 0) {
+            throw new Error(`Conflicting routes:\n${conflicts.map(describeConflict).join('\n')}`);
+        }
+        for (const conflict of conflicts) {
+            this.log.warn('Unreachable route', { route: describeConflict(conflict) });
+        }
+
         // Handle CORS preflight requests (catch-all for routes without custom OPTIONS handlers)
-        this.router.options('*', async (request: Request) => {
+        this.router.options('*', async (request: Request, url: URL) => {
             const ctx = createDurableObjectContext<Params, Record<string, any>>(
                 request,
                 (request.params || {}) as Params,
-                this.log
+                this.log,
+                this.urlBuilder
             );
 
             const corsCtx: CorsOriginContext<E, Record<string, any>> = {
@@ -1241,14 +3559,22 @@ export class DurableObjectRouter<E extends Env> {
                 data: ctx.data,
             };
 
+            // Use the innermost mounted router's middleware and CORS for this path
+            const pathname = url.pathname;
+            const scope = findScope(this.scopes, pathname)!;
+
             // Build the middleware chain
-            const matchingMiddlewares = this.getMatchingMiddlewares(request, '*');
+            const matchingMiddlewares = this.getMatchingMiddlewares(
+                ctx,
+                pathname,
+                scope.middlewares
+            );
 
             // Final handler returns OPTIONS preflight response
             const finalHandler: DurableObjectMiddleware<Params, Record<string, any>> = async () => {
                 const requestOrigin = request.headers.get('Origin');
-                const headersToUse = this.corsConfig
-                    ? buildCorsHeaders(this.corsConfig, requestOrigin, corsCtx)
+                const headersToUse = scope.corsConfig
+                    ? buildCorsHeaders(scope.corsConfig, requestOrigin, corsCtx)
                     : corsHeaders;
 
                 return new Response(null, {
@@ -1260,17 +3586,21 @@ export class DurableObjectRouter<E extends Env> {
             return this.executeChain(
                 ctx,
                 [...matchingMiddlewares, finalHandler],
-                this.corsConfig,
-                corsCtx
+                pathname,
+                scope.corsConfig,
+                corsCtx,
+                scope.errorMappers,
+                scope.errorFormat
             );
         });
 
         // Handle 404 - Route not found
-        this.router.all('*', async (request: Request) => {
+        this.router.all('*', async (request: Request, url: URL) => {
             const ctx = createDurableObjectContext<Params, Record<string, any>>(
                 request,
                 (request.params || {}) as Params,
-                this.log
+                this.log,
+                this.urlBuilder
             );
 
             const corsCtx: CorsOriginContext<E, Record<string, any>> = {
@@ -1279,17 +3609,54 @@ export class DurableObjectRouter<E extends Env> {
                 data: ctx.data,
             };
 
+            // Use the innermost mounted router's middleware and CORS for this path
+            const pathname = url.pathname;
+            const scope = findScope(this.scopes, pathname)!;
+
             // Build the middleware chain
-            const matchingMiddlewares = this.getMatchingMiddlewares(request, '*');
+            const matchingMiddlewares = this.getMatchingMiddlewares(
+                ctx,
+                pathname,
+                scope.middlewares
+            );
+
+            // Final handler returns 405 if routes match the path with other methods, else 404
+            const finalHandler: DurableObjectMiddleware<Params, Record<string, any>> = async (
+                ctx
+            ) => {
+                const allowedMethods = getAllowedMethods(
+                    matchRouteTable(this.routeTable, pathname),
+                    pathname
+                );
+                if (allowedMethods.length > 0 && scope.methodNotAllowed) {
+                    return scope.methodNotAllowed(ctx, allowedMethods);
+                }
+                if (allowedMethods.length > 0) {
+                    throw new HttpError(405, 'Method Not Allowed', null, {
+                        Allow: allowedMethods.join(', '),
+                    });
+                }
+                if (scope.notFound) {
+                    return scope.notFound(ctx);
+                }
 
-            // Final handler returns 404
-            const finalHandler: DurableObjectMiddleware<Params, Record<string, any>> = async () => {
                 const requestOrigin = request.headers.get('Origin');
-                const corsHeadersToApply = this.corsConfig
-                    ? buildCorsHeaders(this.corsConfig, requestOrigin, corsCtx)
+                const corsHeadersToApply = scope.corsConfig
+                    ? buildCorsHeaders(scope.corsConfig, requestOrigin, corsCtx)
                     : corsHeaders;
 
-                return new Response(JSON.stringify({ error: 'Not found' }), {
+                if (scope.errorFormat === 'problem') {
+                    return buildProblemResponse(
+                        ctx,
+                        pathname,
+                        404,
+                        undefined,
+                        { requestId: ctx.requestId },
+                        corsHeadersToApply
+                    );
+                }
+                const body = { error: 'Not found', requestId: ctx.requestId };
+                return new Response(JSON.stringify(body), {
                     status: 404,
                     headers: {
                         'Content-Type': 'application/json',
@@ -1298,14 +3665,20 @@ export class DurableObjectRouter<E extends Env> {
                 });
             };
 
-            return this.executeChain(
+            const response = await this.executeChain(
                 ctx,
                 [...matchingMiddlewares, finalHandler],
-                this.corsConfig,
-                corsCtx
+                pathname,
+                scope.corsConfig,
+                corsCtx,
+                scope.errorMappers,
+                scope.errorFormat
             );
+            return request.method === 'HEAD' ? toHeadResponse(response) : response;
         });
 
+        this.routeTable = compileRouteTable(this.router.routes);
+
         this.isBuilt = true;
         return this.router;
     }
@@ -0,0 +1,312 @@
+/**
+ * Request and response validation with Standard Schema
+ * @module schema
+ */
+
+import { HttpError } from '@whi/http-errors';
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by zod, valibot,
+ * arktype and other validation libraries. Copied here as the spec recommends, so no schema
+ * library is a dependency.
+ *
+ * @category Validation
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+/**
+ * Types of the Standard Schema interface
+ *
+ * @category Validation
+ */
+export declare namespace StandardSchemaV1 {
+    /** The Standard Schema properties */
+    export interface Props<Input = unknown, Output = Input> {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+        readonly types?: Types<Input, Output> | undefined;
+    }
+
+    /** Result of a validation */
+    export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+    /** Result of a successful validation */
+    export interface SuccessResult<Output> {
+        readonly value: Output;
+        readonly issues?: undefined;
+    }
+
+    /** Result of a failed validation */
+    export interface FailureResult {
+        readonly issues: ReadonlyArray<Issue>;
+    }
+
+    /** Validation issue */
+    export interface Issue {
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+    }
+
+    /** Segment of an issue path */
+    export interface PathSegment {
+        readonly key: PropertyKey;
+    }
+
+    /** Input and output types of a schema */
+    export interface Types<Input = unknown, Output = Input> {
+        readonly input: Input;
+        readonly output: Output;
+    }
+
+    /** Input type of a schema */
+    export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+        Schema['~standard']['types']
+    >['input'];
+
+    /** Output type of a schema */
+    export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+        Schema['~standard']['types']
+    >['output'];
+}
+
+/**
+ * Schemas validating one request and its response
+ *
+ * @category Validation
+ */
+export interface RequestSchemas {
+    /** Route params; the output replaces `ctx.params` */
+    params?: StandardSchemaV1;
+    /** Query string as an object (repeated keys as arrays); the output is `ctx.query` */
+    query?: StandardSchemaV1;
+    /**
+     * Request body as parsed by `ctx.body()` (forms as objects); the output is what
+     * `ctx.body()` and `ctx.json()` return. Not applied to GET and HEAD requests.
+     */
+    body?: StandardSchemaV1;
+    /** Response data by status; the output is sent, so schemas can strip fields */
+    responses?: Record<number, StandardSchemaV1>;
+}
+
+/**
+ * Schemas of a route: schemas for every method, plus schemas for single methods keyed by
+ * HTTP method, which replace them (e.g. `{ params, POST: { body } }`). HEAD requests use
+ * the GET schemas unless keyed themselves.
+ *
+ * @category Validation
+ */
+export type RouteSchemas = RequestSchemas & {
+    [method: Uppercase<string>]: RequestSchemas | undefined;
+};
+
+/**
+ * Schema for one part of the requests of a method, if any
+ */
+type SchemaOf<S, M extends string, K extends keyof RequestSchemas> =
+    Uppercase<M> extends keyof S
+        ? K extends keyof NonNullable<S[Uppercase<M>]>
+            ? NonNullable<S[Uppercase<M>]>[K]
+            : K extends keyof S
+              ? S[K]
+              : undefined
+        : K extends keyof S
+          ? S[K]
+          : undefined;
+
+/**
+ * Output type of a schema, or the fallback without a schema
+ */
+type OutputOf<Schema, Fallback> = Schema extends StandardSchemaV1
+    ? StandardSchemaV1.InferOutput<Schema>
+    : Fallback;
+
+/**
+ * Context type of a route with schemas: `params`, `query`, `body()` and `json()` are typed
+ * from the schemas for the HTTP method.
+ *
+ * @typeParam C - Context type (Context or DurableObjectContext)
+ * @typeParam S - Route schemas
+ * @typeParam M - HTTP method the handler serves
+ *
+ * @category Validation
+ *
+ * @example
+ * ```typescript
+ * class UsersHandler extends RouteHandler<Env, any> {
+ *   static schemas = {
+ *     params: z.object({ orgId: z.coerce.number() }),
+ *     POST: { body: z.object({ name: z.string() }) },
+ *   } satisfies RouteSchemas;
+ *
+ *   async post(ctx: ValidatedContext<Context<Env>, typeof UsersHandler.schemas, 'POST'>) {
+ *     const { name } = await ctx.json();
+ *     return createUser(ctx.env, ctx.params.orgId, name);
+ *   }
+ * }
+ * ```
+ */
+export type ValidatedContext<C, S, M extends string = string> = Omit<
+    C,
+    'params' | 'body' | 'json'
+> & {
+    params: OutputOf<SchemaOf<S, M, 'params'>, C extends { params: infer P } ? P : never>;
+    query: OutputOf<SchemaOf<S, M, 'query'>, Record<string, string | string[]>>;
+    body(): Promise<OutputOf<SchemaOf<S, M, 'body'>, unknown>>;
+    json<T = OutputOf<SchemaOf<S, M, 'body'>, any>>(): Promise<T>;
+};
+
+/**
+ * Validation issue in a 400 response body
+ *
+ * @category Validation
+ */
+export interface ValidationIssue {
+    /** Part of the request that failed validation */
+    location: 'params' | 'query' | 'body';
+    /** Path to the invalid value within that part */
+    path: (string | number)[];
+    /** Issue message from the schema library */
+    message: string;
+}
+
+/**
+ * Convert an issue path to plain keys
+ */
+function toIssuePath(path: StandardSchemaV1.Issue['path']): (string | number)[] {
+    return (path ?? []).map((segment) => {
+        const key = typeof segment === 'object' ? segment.key : segment;
+        return typeof key === 'number' ? key : String(key);
+    });
+}
+
+/**
+ * Validate a value, collecting issues under a location
+ */
+async function validatePart(
+    schema: StandardSchemaV1 | undefined,
+    value: unknown,
+    location: ValidationIssue['location'],
+    issues: ValidationIssue[]
+): Promise<unknown> {
+    if (schema === undefined) {
+        return value;
+    }
+    const result = await schema['~standard'].validate(value);
+    if (result.issues) {
+        for (const issue of result.issues) {
+            issues.push({ location, path: toIssuePath(issue.path), message: issue.message });
+        }
+        return undefined;
+    }
+    return result.value;
+}
+
+/**
+ * Query string as an object, with repeated keys as arrays
+ */
+function toQueryObject(search: URLSearchParams): Record<string, string | string[]> {
+    const query: Record<string, string | string[]> = {};
+    for (const key of new Set(search.keys())) {
+        const values = search.getAll(key);
+        query[key] = values.length === 1 ? values[0] : values;
+    }
+    return query;
+}
+
+/**
+ * Form data as an object, with repeated keys as arrays
+ */
+function toFormObject(form: FormData): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    for (const key of new Set(form.keys())) {
+        const values = form.getAll(key);
+        object[key] = values.length === 1 ? values[0] : values;
+    }
+    return object;
+}
+
+/**
+ * Context parts that request validation reads and replaces
+ */
+interface ValidationContext {
+    request: Request;
+    params: unknown;
+    body(): Promise<unknown>;
+    json(): Promise<unknown>;
+}
+
+/**
+ * Validate a request's params, query and body, replacing `ctx.params` with the validated
+ * params, setting `ctx.query`, and making `ctx.body()` and `ctx.json()` return the validated
+ * body. Throws `HttpError(400)` listing every issue when validation fails.
+ *
+ * @param ctx - The request context
+ * @param schemas - Schemas for the request's method
+ * @param url - The request URL, if already parsed (default: parsed from `ctx.request.url`)
+ *
+ * @category Validation
+ */
+export async function validateRequest(
+    ctx: ValidationContext,
+    schemas: RequestSchemas,
+    url: URL = new URL(ctx.request.url)
+): Promise<void> {
+    const issues: ValidationIssue[] = [];
+    const query = toQueryObject(url.searchParams);
+
+    const params = await validatePart(schemas.params, ctx.params, 'params', issues);
+    const validQuery = await validatePart(schemas.query, query, 'query', issues);
+
+    const method = ctx.request.method;
+    const validateBody = schemas.body !== undefined && method !== 'GET' && method !== 'HEAD';
+    let body: unknown;
+    if (validateBody) {
+        const parsed = await ctx.body();
+        const input = parsed instanceof FormData ? toFormObject(parsed) : parsed;
+        body = await validatePart(schemas.body, input, 'body', issues);
+    }
+
+    if (issues.length > 0) {
+        throw new HttpError(400, 'Validation failed', { issues });
+    }
+
+    ctx.params = params;
+    Object.assign(ctx, { query: validQuery });
+    if (validateBody) {
+        ctx.body = ctx.json = async () => body;
+    }
+}
+
+/**
+ * Validate handler data against the response schema for its status, if any.
+ *
+ * @param data - Data returned by the handler
+ * @param status - Response status
+ * @param schemas - Schemas for the request's method
+ * @returns The validated data
+ * @throws Error when the data doesn't match, which results in a 500
+ *
+ * @category Validation
+ */
+export async function validateResponse(
+    data: unknown,
+    status: number,
+    schemas: RequestSchemas
+): Promise<unknown> {
+    const schema = schemas.responses?.[status];
+    if (schema === undefined) {
+        return data;
+    }
+
+    const result = await schema['~standard'].validate(data);
+    if (result.issues) {
+        const details = result.issues
+            .map((issue) => `${toIssuePath(issue.path).join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Response does not match the schema for status ${status}: ${details}`);
+    }
+    return result.value;
+}
@@ -0,0 +1,498 @@
+/**
+ * Response serializers and content negotiation
+ * @module serializers
+ */
+
+import { HttpError } from '@whi/http-errors';
+
+/**
+ * Serializer turning handler data into a response body
+ *
+ * @category Serialization
+ */
+export type Serializer = (data: any) => BodyInit | null;
+
+/**
+ * Serializers keyed by the Content-Type they produce, in order of preference. Keys may carry
+ * parameters (e.g. `text/csv; charset=utf-8`), which negotiation ignores.
+ *
+ * @category Serialization
+ */
+export type Serializers = Record<string, Serializer>;
+
+/**
+ * Value as JSON.stringify sees it, after `toJSON()` (e.g. Dates as ISO strings)
+ */
+function toJSONValue(value: unknown): unknown {
+    if (
+        value !== null &&
+        typeof value === 'object' &&
+        typeof (value as any).toJSON === 'function'
+    ) {
+        return (value as any).toJSON();
+    }
+    return value;
+}
+
+/**
+ * Entries of an object that JSON.stringify would include
+ */
+function jsonEntries(value: object): [string, unknown][] {
+    return Object.entries(value).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol'
+    );
+}
+
+/**
+ * JSON serializer (`application/json`)
+ *
+ * @category Serialization
+ */
+export const jsonSerializer: Serializer = (data) => JSON.stringify(data);
+
+/**
+ * Newline-delimited JSON serializer (`application/x-ndjson`): one line per array item, or
+ * a single line for other values
+ *
+ * @category Serialization
+ */
+export const ndjsonSerializer: Serializer = (data) =>
+    (Array.isArray(data) ? data : [data])
+        .map((item) => `${JSON.stringify(item) ?? 'null'}\n`)
+        .join('');
+
+/**
+ * Plain text serializer (`text/plain`): strings as they are, other values as JSON
+ *
+ * @category Serialization
+ */
+export const textSerializer: Serializer = (data) =>
+    typeof data === 'string' ? data : (JSON.stringify(data) ?? '');
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: unknown): string {
+    const item = toJSONValue(value);
+    const text =
+        item === null || item === undefined
+            ? ''
+            : typeof item === 'object'
+              ? JSON.stringify(item)
+              : String(item);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV serializer (`text/csv`, RFC 4180). Arrays of objects get a header row of their keys;
+ * rows that are arrays are written as they are. A single value is one row.
+ *
+ * @category Serialization
+ */
+export const csvSerializer: Serializer = (data) => {
+    const rows: unknown[] = Array.isArray(data) ? data : [data];
+    const isRecord = (row: unknown): row is object =>
+        row !== null && typeof row === 'object' && !Array.isArray(row);
+
+    const columns = [
+        ...new Set(rows.filter(isRecord).flatMap((row) => jsonEntries(row).map(([key]) => key))),
+    ];
+    const lines = rows.map((row) => {
+        if (Array.isArray(row)) return row.map(csvField);
+        if (isRecord(row)) return columns.map((key) => csvField((row as any)[key]));
+        return [csvField(row)];
+    });
+    if (columns.length > 0) {
+        lines.unshift(columns.map(csvField));
+    }
+    return lines.map((fields) => `${fields.join(',')}\r\n`).join('');
+};
+
+/**
+ * Growable byte buffer for the binary serializers
+ */
+class ByteWriter {
+    private buffer = new Uint8Array(256);
+    private view = new DataView(this.buffer.buffer);
+    private length = 0;
+
+    private reserve(size: number): number {
+        const offset = this.length;
+        if (offset + size > this.buffer.length) {
+            let capacity = this.buffer.length * 2;
+            while (capacity < offset + size) capacity *= 2;
+            const next = new Uint8Array(capacity);
+            next.set(this.buffer.subarray(0, offset));
+            this.buffer = next;
+            this.view = new DataView(next.buffer);
+        }
+        this.length += size;
+        return offset;
+    }
+
+    uint8(value: number): void {
+        this.view.setUint8(this.reserve(1), value);
+    }
+    uint16(value: number): void {
+        this.view.setUint16(this.reserve(2), value);
+    }
+    uint32(value: number): void {
+        this.view.setUint32(this.reserve(4), value);
+    }
+    uint64(value: bigint): void {
+        this.view.setBigUint64(this.reserve(8), value);
+    }
+    int8(value: number): void {
+        this.view.setInt8(this.reserve(1), value);
+    }
+    int16(value: number): void {
+        this.view.setInt16(this.reserve(2), value);
+    }
+    int32(value: number): void {
+        this.view.setInt32(this.reserve(4), value);
+    }
+    int64(value: bigint): void {
+        this.view.setBigInt64(this.reserve(8), value);
+    }
+    float64(value: number): void {
+        this.view.setFloat64(this.reserve(8), value);
+    }
+    bytes(value: Uint8Array): void {
+        this.buffer.set(value, this.reserve(value.length));
+    }
+
+    result(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+/**
+ * Encoding of the data model shared by CBOR and MessagePack
+ */
+interface BinaryFormat {
+    nil(out: ByteWriter): void;
+    bool(out: ByteWriter, value: boolean): void;
+    integer(out: ByteWriter, value: number | bigint): void;
+    float(out: ByteWriter, value: number): void;
+    string(out: ByteWriter, value: Uint8Array): void;
+    binary(out: ByteWriter, value: Uint8Array): void;
+    array(out: ByteWriter, length: number): void;
+    map(out: ByteWriter, size: number): void;
+}
+
+/**
+ * Encode JSON-like data in a binary format. Values convert like JSON.stringify converts
+ * them, except that byte arrays are encoded as binary.
+ */
+function encodeBinary(data: unknown, format: BinaryFormat): Uint8Array {
+    const out = new ByteWriter();
+    const encoder = new TextEncoder();
+
+    const write = (input: unknown): void => {
+        const value = toJSONValue(input);
+        if (typeof value === 'boolean') {
+            format.bool(out, value);
+        } else if (typeof value === 'number') {
+            if (Number.isSafeInteger(value)) format.integer(out, value);
+            else format.float(out, value);
+        } else if (typeof value === 'bigint') {
+            format.integer(out, value);
+        } else if (typeof value === 'string') {
+            format.string(out, encoder.encode(value));
+        } else if (value instanceof ArrayBuffer) {
+            format.binary(out, new Uint8Array(value));
+        } else if (ArrayBuffer.isView(value)) {
+            format.binary(out, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        } else if (Array.isArray(value)) {
+            format.array(out, value.length);
+            for (const item of value) write(item);
+        } else if (value !== null && typeof value === 'object') {
+            const entries = jsonEntries(value);
+            format.map(out, entries.length);
+            for (const [key, item] of entries) {
+                format.string(out, encoder.encode(key));
+                write(item);
+            }
+        } else {
+            format.nil(out);
+        }
+    };
+
+    write(data);
+    return out.result();
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+/**
+ * Write a CBOR initial byte and argument
+ */
+function cborHead(out: ByteWriter, major: number, argument: number | bigint): void {
+    const type = major << 5;
+    if (typeof argument === 'bigint' || argument > 0xffffffff) {
+        out.uint8(type | 27);
+        out.uint64(BigInt(argument));
+    } else if (argument < 24) {
+        out.uint8(type | argument);
+    } else if (argument < 0x100) {
+        out.uint8(type | 24);
+        out.uint8(argument);
+    } else if (argument < 0x10000) {
+        out.uint8(type | 25);
+        out.uint16(argument);
+    } else {
+        out.uint8(type | 26);
+        out.uint32(argument);
+    }
+}
+
+const cbor: BinaryFormat = {
+    nil: (out) => out.uint8(0xf6),
+    bool: (out, value) => out.uint8(value ? 0xf5 : 0xf4),
+    integer(out, value) {
+        if (typeof value === 'bigint' && (value > MAX_UINT64 || value < -MAX_UINT64 - 1n)) {
+            throw new TypeError(`BigInt ${value} is out of range for CBOR`);
+        }
+        if (value >= 0) {
+            cborHead(out, 0, value);
+        } else {
+            cborHead(out, 1, typeof value === 'bigint' ? -1n - value : -1 - value);
+        }
+    },
+    float(out, value) {
+        out.uint8(0xfb);
+        out.float64(value);
+    },
+    string(out, value) {
+        cborHead(out, 3, value.length);
+        out.bytes(value);
+    },
+    binary(out, value) {
+        cborHead(out, 2, value.length);
+        out.bytes(value);
+    },
+    array: (out, length) => cborHead(out, 4, length),
+    map: (out, size) => cborHead(out, 5, size),
+};
+
+/**
+ * Write a MessagePack length prefix: the fix format when it fits, or an 8-, 16- or 32-bit one
+ */
+function msgpackLength(
+    out: ByteWriter,
+    length: number,
+    fix: { prefix: number; max: number } | undefined,
+    [prefix8, prefix16, prefix32]: [number | undefined, number, number]
+): void {
+    if (fix && length <= fix.max) {
+        out.uint8(fix.prefix | length);
+    } else if (prefix8 !== undefined && length < 0x100) {
+        out.uint8(prefix8);
+        out.uint8(length);
+    } else if (length < 0x10000) {
+        out.uint8(prefix16);
+        out.uint16(length);
+    } else {
+        out.uint8(prefix32);
+        out.uint32(length);
+    }
+}
+
+const msgpack: BinaryFormat = {
+    nil: (out) => out.uint8(0xc0),
+    bool: (out, value) => out.uint8(value ? 0xc3 : 0xc2),
+    integer(out, value) {
+        if (typeof value === 'bigint') {
+            if (value >= 0n && value <= MAX_UINT64) {
+                out.uint8(0xcf);
+                out.uint64(value);
+            } else if (value < 0n && value >= -(2n ** 63n)) {
+                out.uint8(0xd3);
+                out.int64(value);
+            } else {
+                throw new TypeError(`BigInt ${value} is out of range for MessagePack`);
+            }
+        } else if (value >= 0) {
+            if (value < 0x80) {
+                out.uint8(value);
+            } else if (value < 0x100) {
+                out.uint8(0xcc);
+                out.uint8(value);
+            } else if (value < 0x10000) {
+                out.uint8(0xcd);
+                out.uint16(value);
+            } else if (value <= 0xffffffff) {
+                out.uint8(0xce);
+                out.uint32(value);
+            } else {
+                out.uint8(0xcf);
+                out.uint64(BigInt(value));
+            }
+        } else if (value >= -32) {
+            out.int8(value);
+        } else if (value >= -0x80) {
+            out.uint8(0xd0);
+            out.int8(value);
+        } else if (value >= -0x8000) {
+            out.uint8(0xd1);
+            out.int16(value);
+        } else if (value >= -0x80000000) {
+            out.uint8(0xd2);
+            out.int32(value);
+        } else {
+            out.uint8(0xd3);
+            out.int64(BigInt(value));
+        }
+    },
+    float(out, value) {
+        out.uint8(0xcb);
+        out.float64(value);
+    },
+    string(out, value) {
+        msgpackLength(out, value.length, { prefix: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]);
+        out.bytes(value);
+    },
+    binary(out, value) {
+        msgpackLength(out, value.length, undefined, [0xc4, 0xc5, 0xc6]);
+        out.bytes(value);
+    },
+    array: (out, length) =>
+        msgpackLength(out, length, { prefix: 0x90, max: 15 }, [undefined, 0xdc, 0xdd]),
+    map: (out, size) =>
+        msgpackLength(out, size, { prefix: 0x80, max: 15 }, [undefined, 0xde, 0xdf]),
+};
+
+/**
+ * CBOR serializer (`application/cbor`, RFC 8949). Values convert like JSON.stringify
+ * converts them, except that byte arrays are encoded as byte strings and BigInts as
+ * integers.
+ *
+ * @category Serialization
+ */
+export const cborSerializer: Serializer = (data) => encodeBinary(data, cbor);
+
+/**
+ * MessagePack serializer (`application/msgpack`). Values convert like JSON.stringify
+ * converts them, except that byte arrays are encoded as binary and BigInts as integers.
+ *
+ * @category Serialization
+ */
+export const msgpackSerializer: Serializer = (data) => encodeBinary(data, msgpack);
+
+/**
+ * All built-in serializers, with JSON preferred. Responses are JSON unless a router or
+ * handler sets `serializers`, e.g. to these to negotiate every built-in format.
+ *
+ * @category Serialization
+ */
+export const builtinSerializers: Serializers = {
+    'application/json': jsonSerializer,
+    'application/x-ndjson': ndjsonSerializer,
+    'application/cbor': cborSerializer,
+    'application/msgpack': msgpackSerializer,
+    'text/plain; charset=utf-8': textSerializer,
+    'text/csv; charset=utf-8': csvSerializer,
+};
+
+/**
+ * Lowercase media type of a Content-Type or Accept entry, without parameters
+ */
+function getMediaType(value: string): string {
+    return value.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Parse an Accept header into media ranges with their quality
+ */
+function parseAccept(accept: string): { type: string; subtype: string; q: number }[] {
+    return accept.split(',').flatMap((entry) => {
+        const [type, subtype] = getMediaType(entry).split('/');
+        if (!type || !subtype) {
+            return [];
+        }
+        const q = /;\s*q\s*=\s*([\d.]+)/i.exec(entry);
+        const quality = q ? Number(q[1]) : 1;
+        return Number.isNaN(quality) ? [] : [{ type, subtype, q: quality }];
+    });
+}
+
+/**
+ * Quality of a media type under the most specific matching range, or 0 when none matches
+ */
+function qualityOf(ranges: ReturnType<typeof parseAccept>, mediaType: string): number {
+    const [type, subtype] = mediaType.split('/');
+    let best = { specificity: -1, q: 0 };
+    for (const range of ranges) {
+        const specificity =
+            range.type === type && range.subtype === subtype
+                ? 2
+                : range.type === type && range.subtype === '*'
+                  ? 1
+                  : range.type === '*' && range.subtype === '*'
+                    ? 0
+                    : -1;
+        if (specificity > best.specificity) {
+            best = { specificity, q: range.q };
+        }
+    }
+    return best.q;
+}
+
+/**
+ * Serializer chosen for a response, with the Content-Type it produces
+ *
+ * @category Serialization
+ */
+export interface SelectedSerializer {
+    contentType: string;
+    serialize: Serializer;
+}
+
+/**
+ * Select the serializer for a response.
+ *
+ * A Content-Type already set on the response picks its serializer (or the first one, when
+ * none produces it). Otherwise the `Accept` header picks the serializer with the highest
+ * quality, preferring earlier ones on ties; without an `Accept` header, the first one.
+ *
+ * @param accept - The request's Accept header
+ * @param serializers - Available serializers
+ * @param contentType - Content-Type set by the handler, if any
+ * @returns The Content-Type and serializer to use
+ * @throws HttpError(406) when the Accept header matches no serializer
+ *
+ * @category Serialization
+ */
+export function selectSerializer(
+    accept: string | null,
+    serializers: Serializers,
+    contentType?: string | null
+): SelectedSerializer {
+    const available = Object.keys(serializers);
+
+    if (contentType) {
+        const mediaType = getMediaType(contentType);
+        const match = available.find((key) => getMediaType(key) === mediaType) ?? available[0];
+        return { contentType, serialize: serializers[match] ?? jsonSerializer };
+    }
+
+    const ranges = accept ? parseAccept(accept) : [];
+    if (ranges.length === 0) {
+        const [first] = available;
+        return first === undefined
+            ? { contentType: 'application/json', serialize: jsonSerializer }
+            : { contentType: first, serialize: serializers[first] };
+    }
+
+    let selected: { key: string; q: number } | undefined;
+    for (const key of available) {
+        const q = qualityOf(ranges, getMediaType(key));
+        if (q > 0 && (selected === undefined || q > selected.q)) {
+            selected = { key, q };
+        }
+    }
+    if (selected === undefined) {
+        throw new HttpError(406, 'Not Acceptable', { available: available.map(getMediaType) });
+    }
+    return { contentType: selected.key, serialize: serializers[selected.key] };
+}
@@ -0,0 +1,152 @@
+/**
+ * Request IDs and W3C trace context
+ * @module trace
+ */
+
+/**
+ * Header that carries the request ID, read from requests and set on responses
+ *
+ * @category Tracing
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Request IDs adopted from headers: letters, digits and `_ . : @ -`, up to 128 characters
+ * (cf-ray IDs and UUIDs qualify). Anything else is ignored, so it can't inject into logs.
+ */
+const REQUEST_ID = /^[\w.:@-]{1,128}$/;
+
+/**
+ * W3C traceparent header: version, trace ID, parent ID and flags
+ */
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * W3C trace context of a request
+ *
+ * @category Tracing
+ */
+export interface TraceContext {
+    /** Trace ID (32 hex characters), adopted from the incoming traceparent or generated */
+    traceId: string;
+    /** Span ID of this request (16 hex characters), the parent of outgoing calls */
+    spanId: string;
+    /** Span ID of the caller, when the request had a traceparent header */
+    parentSpanId?: string;
+    /** Trace flags (e.g. '01' when sampled) */
+    flags: string;
+    /** Incoming tracestate header, forwarded unchanged */
+    tracestate?: string;
+    /** traceparent header value for outgoing requests */
+    traceparent: string;
+}
+
+/**
+ * Random lowercase hex string of the given number of bytes
+ */
+function randomHex(bytes: number): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+        byte.toString(16).padStart(2, '0')
+    ).join('');
+}
+
+/**
+ * Parse a traceparent header, returning undefined when it's missing or invalid
+ */
+function parseTraceparent(
+    header: string | null
+): { traceId: string; parentSpanId: string; flags: string } | undefined {
+    const match = header === null ? null : TRACEPARENT.exec(header.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, version, traceId, parentSpanId, flags, rest] = match;
+    if (
+        version === 'ff' ||
+        (version === '00' && rest !== undefined) ||
+        /^0+$/.test(traceId) ||
+        /^0+$/.test(parentSpanId)
+    ) {
+        return undefined;
+    }
+    return { traceId, parentSpanId, flags };
+}
+
+/**
+ * Create the trace context of a request: continue the trace of its traceparent header with
+ * a new span, or start a new trace.
+ *
+ * @param request - Incoming request
+ * @returns The request's trace context
+ *
+ * @category Tracing
+ */
+export function createTraceContext(request: Request): TraceContext {
+    const incoming = parseTraceparent(request.headers.get('traceparent'));
+    const traceId = incoming?.traceId ?? randomHex(16);
+    const spanId = randomHex(8);
+    const flags = incoming?.flags ?? '01';
+
+    return {
+        traceId,
+        spanId,
+        parentSpanId: incoming?.parentSpanId,
+        flags,
+        tracestate: (incoming && request.headers.get('tracestate')) || undefined,
+        traceparent: `00-${traceId}-${spanId}-${flags}`,
+    };
+}
+
+/**
+ * Get the ID of a request: its `X-Request-Id` header, the trace ID of its traceparent
+ * header, its `cf-ray` header, or a new UUID, in that order.
+ *
+ * @param request - Incoming request
+ * @param trace - The request's trace context
+ * @returns The request ID
+ *
+ * @category Tracing
+ */
+export function getRequestId(request: Request, trace: TraceContext): string {
+    const requestId = request.headers.get(REQUEST_ID_HEADER);
+    if (requestId !== null && REQUEST_ID.test(requestId)) {
+        return requestId;
+    }
+    if (trace.parentSpanId !== undefined) {
+        return trace.traceId;
+    }
+    const ray = request.headers.get('cf-ray');
+    if (ray !== null && REQUEST_ID.test(ray)) {
+        return ray;
+    }
+    return crypto.randomUUID();
+}
+
+/**
+ * Headers that link an outgoing request to the current one: `traceparent` (and
+ * `tracestate`) for the trace, and `X-Request-Id`.
+ *
+ * @param ctx - Context of the current request
+ * @returns Headers to add to outgoing requests
+ *
+ * @category Tracing
+ *
+ * @example
+ * ```typescript
+ * async get(ctx: Context<Env>) {
+ *   const stub = ctx.env.COUNTER.get(ctx.env.COUNTER.idFromName('global'));
+ *   return stub.fetch('https://counter/increment', { headers: traceHeaders(ctx) });
+ * }
+ * ```
+ */
+export function traceHeaders(ctx: {
+    requestId: string;
+    trace: TraceContext;
+}): Record<string, string> {
+    return {
+        traceparent: ctx.trace.traceparent,
+        ...(ctx.trace.tracestate ? { tracestate: ctx.trace.tracestate } : {}),
+        [REQUEST_ID_HEADER]: ctx.requestId,
+    };
+}
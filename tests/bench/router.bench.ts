@@ -0,0 +1,224 @@
+import { bench, describe } from 'vitest';
+import {
+    WorkerRouter,
+    RouteHandler,
+    DurableObjectRouter,
+    DurableObjectRouteHandler,
+    DurableObjectMiddleware,
+    Middleware,
+    Env,
+} from '../../src/router';
+import { compilePath } from '../../src/path';
+import { compileRouteTable, matchRouteTable } from '../../src/route-table';
+import { IRequest, Router, RouterType, RouteEntry } from 'itty-router';
+
+// A route table and middleware stack the size of a mid-sized API
+const RESOURCES = Array.from({ length: 20 }, (_, i) => `resource${i}`);
+
+const MIDDLEWARE_PATHS = [
+    null,
+    null,
+    '/api/*',
+    '/api/v1/*',
+    '/api/v1/resource0/*',
+    '/api/v1/resource5/:id/*',
+    '/api/v1/resource10/:id<int>',
+    '/api/v1/resource19/:id/items/*',
+    '/orgs/:orgId/*',
+    '/admin/*',
+    '/health',
+    '/api/v1/resource15/*',
+];
+
+const ROUTE_PATHS = RESOURCES.flatMap((resource) => [
+    `/api/v1/${resource}`,
+    `/api/v1/${resource}/:id`,
+    `/api/v1/${resource}/:id/items`,
+    `/api/v1/${resource}/:id/items/:itemId`,
+]);
+
+const REQUESTS = [
+    'https://example.com/api/v1/resource0',
+    'https://example.com/api/v1/resource10/42',
+    'https://example.com/api/v1/resource19/abc/items/7',
+    'https://example.com/api/v1/unknown',
+];
+
+// Full requests allocate enough to need a warmup, or whichever bench runs first is slower
+const FETCH_OPTIONS = { time: 2000, warmupTime: 1000 };
+
+class ItemHandler extends RouteHandler<Env> {
+    async get() {
+        return { ok: true };
+    }
+    async post() {
+        return { ok: true };
+    }
+}
+
+class DOItemHandler extends DurableObjectRouteHandler {
+    async get() {
+        return { ok: true };
+    }
+    async post() {
+        return { ok: true };
+    }
+}
+
+function createWorkerRouter() {
+    const router = new WorkerRouter<Env>('bench');
+    router.log.setLevel('fatal');
+    for (const path of MIDDLEWARE_PATHS) {
+        const middleware: Middleware<Env> = async (_ctx, next) => next();
+        if (path === null) router.use(middleware);
+        else router.use(path, middleware);
+    }
+    for (const path of ROUTE_PATHS) {
+        router.defineRouteHandler(path, ItemHandler);
+    }
+    return router.build();
+}
+
+function createDurableObjectRouter() {
+    const state = { id: { toString: () => 'bench' } } as unknown as DurableObjectState;
+    const router = new DurableObjectRouter<Env>(state, { LOG_LEVEL: 'fatal' }, 'bench');
+    router.log.setLevel('fatal');
+    for (const path of MIDDLEWARE_PATHS) {
+        const middleware: DurableObjectMiddleware = async (_ctx, _state, next) => next();
+        if (path === null) router.use(middleware);
+        else router.use(path, middleware);
+    }
+    for (const path of ROUTE_PATHS) {
+        router.defineRouteHandler(path, DOItemHandler);
+    }
+    return router.build();
+}
+
+// An itty-router over a built router's routes, whose handlers parse the URL themselves
+function withLinearScan(router: RouterType) {
+    return Router({
+        routes: router.routes.map(
+            ([method, regex, handlers, path]): RouteEntry => [
+                method,
+                regex,
+                handlers.map(
+                    (handler) =>
+                        (request: IRequest, ...args: unknown[]) =>
+                            handler(request, new URL(request.url), ...args)
+                ),
+                path,
+            ]
+        ),
+    });
+}
+
+// Before compiling at build, each request parsed the URL and compiled every middleware path
+describe('middleware matching', () => {
+    const compiled = MIDDLEWARE_PATHS.map((path) =>
+        path === null ? null : compilePath(path, 'middleware')
+    );
+
+    bench('compiled per request', () => {
+        for (const url of REQUESTS) {
+            const pathname = new URL(url).pathname;
+            for (const path of MIDDLEWARE_PATHS) {
+                if (path === null) continue;
+                const { regex, parse } = compilePath(path, 'middleware');
+                const match = regex.exec(pathname);
+                if (match) parse(match.groups ?? {});
+            }
+        }
+    });
+
+    bench('precompiled at build', () => {
+        for (const url of REQUESTS) {
+            const pathname = new URL(url).pathname;
+            for (const matcher of compiled) {
+                if (matcher === null) continue;
+                const match = matcher.regex.exec(pathname);
+                if (match) matcher.parse(match.groups ?? {});
+            }
+        }
+    });
+});
+
+// itty-router's dispatch loop over every route, and over the candidates of the route table
+describe('route matching', () => {
+    const { routes } = createWorkerRouter();
+    const table = compileRouteTable(routes);
+    const pathnames = REQUESTS.map((url) => new URL(url).pathname);
+
+    const findRoute = (candidates: RouteEntry[], pathname: string) => {
+        for (const [method, regex] of candidates) {
+            if (method !== 'GET' && method !== 'ALL') continue;
+            const match = pathname.match(regex);
+            if (match) return match;
+        }
+        return null;
+    };
+
+    bench('itty-router linear scan', () => {
+        for (const pathname of pathnames) {
+            findRoute(routes, pathname);
+        }
+    });
+
+    bench('route table', () => {
+        for (const pathname of pathnames) {
+            findRoute(matchRouteTable(table, pathname), pathname);
+        }
+    });
+});
+
+// The same built routes dispatched by itty-router, which tests every route in order, and by
+// the router's route table; the 404s also look up the allowed methods
+describe('WorkerRouter fetch', () => {
+    const router = createWorkerRouter();
+    const linear = withLinearScan(router);
+    const env = { LOG_LEVEL: 'fatal' };
+
+    bench(
+        'itty-router linear scan',
+        async () => {
+            for (const url of REQUESTS) {
+                await linear.fetch(new Request(url), env);
+            }
+        },
+        FETCH_OPTIONS
+    );
+
+    bench(
+        'route table',
+        async () => {
+            for (const url of REQUESTS) {
+                await router.fetch(new Request(url), env);
+            }
+        },
+        FETCH_OPTIONS
+    );
+});
+
+describe('DurableObjectRouter fetch', () => {
+    const router = createDurableObjectRouter();
+    const linear = withLinearScan(router);
+
+    bench(
+        'itty-router linear scan',
+        async () => {
+            for (const url of REQUESTS) {
+                await linear.fetch(new Request(url));
+            }
+        },
+        FETCH_OPTIONS
+    );
+
+    bench(
+        'route table',
+        async () => {
+            for (const url of REQUESTS) {
+                await router.fetch(new Request(url));
+            }
+        },
+        FETCH_OPTIONS
+    );
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { checkContentLength, createBodyReader, limitBodySize } from '../../src/body';
+import { HttpError } from '../../src/index';
+
+function post(body: BodyInit | null, contentType?: string): Request {
+    return new Request('https://example.com/', {
+        method: 'POST',
+        body,
+        headers: contentType ? { 'Content-Type': contentType } : {},
+    });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HttpError> {
+    const error = await promise.then(
+        () => undefined,
+        (error: unknown) => error
+    );
+    expect(error).toBeInstanceOf(HttpError);
+    return error as HttpError;
+}
+
+describe('createBodyReader', () => {
+    it('should parse JSON once and cache the result', async () => {
+        const reader = createBodyReader(post('{"a":1}', 'application/json; charset=utf-8'));
+
+        const first = await reader.json();
+        expect(first).toEqual({ a: 1 });
+        expect(await reader.json()).toBe(first);
+        expect(await reader.body()).toBe(first);
+        expect(await reader.text()).toBe('{"a":1}');
+    });
+
+    it('should leave the request body readable', async () => {
+        const request = post('{"a":1}', 'application/json');
+        const reader = createBodyReader(request);
+
+        await reader.json();
+
+        expect(await request.json()).toEqual({ a: 1 });
+    });
+
+    it('should accept +json media types', async () => {
+        const reader = createBodyReader(post('{"title":"x"}', 'application/problem+json'));
+
+        expect(await reader.json()).toEqual({ title: 'x' });
+    });
+
+    it('should parse urlencoded and multipart forms', async () => {
+        const urlencoded = createBodyReader(post(new URLSearchParams({ name: 'Ada' })));
+        const data = new FormData();
+        data.append('name', 'Grace');
+        const multipart = createBodyReader(post(data));
+
+        expect((await urlencoded.form()).get('name')).toBe('Ada');
+        expect(((await multipart.body()) as FormData).get('name')).toBe('Grace');
+    });
+
+    it('should read text bodies as strings', async () => {
+        const reader = createBodyReader(post('hello', 'text/plain'));
+
+        expect(await reader.body()).toBe('hello');
+    });
+
+    it('should resolve body() to undefined without a body', async () => {
+        expect(await createBodyReader(new Request('https://example.com/')).body()).toBeUndefined();
+        expect(await createBodyReader(post(new Uint8Array())).body()).toBeUndefined();
+    });
+
+    it('should reject malformed input with 400', async () => {
+        const json = await rejection(createBodyReader(post('{"a":', 'application/json')).json());
+        const form = await rejection(
+            createBodyReader(post('garbage', 'multipart/form-data; boundary=x')).form()
+        );
+
+        expect(json.status).toBe(400);
+        expect(json.message).toBe('Malformed JSON body');
+        expect(form.status).toBe(400);
+    });
+
+    it('should reject unsupported content types with 415', async () => {
+        const binary = await rejection(
+            createBodyReader(post('bytes', 'application/octet-stream')).body()
+        );
+        const text = await rejection(createBodyReader(post('hello', 'text/plain')).json());
+        const missing = await rejection(
+            createBodyReader(post(new TextEncoder().encode('{"a":1}'))).json()
+        );
+
+        expect(binary.status).toBe(415);
+        expect(binary.message).toBe("Unsupported Content-Type 'application/octet-stream'");
+        expect(text.status).toBe(415);
+        expect(missing.message).toBe('Missing Content-Type');
+    });
+});
+
+describe('body size limits', () => {
+    it('should reject declared lengths over the limit with 413', () => {
+        const request = new Request('https://example.com/', {
+            method: 'POST',
+            headers: { 'Content-Length': '5' },
+            body: '12345',
+        });
+
+        expect(() => checkContentLength(request, 5)).not.toThrow();
+        expect(() => checkContentLength(request, 4)).toThrow(HttpError);
+        expect(() => checkContentLength(new Request('https://example.com/'), 0)).not.toThrow();
+    });
+
+    it('should fail reads of streamed bodies over the limit with 413', async () => {
+        const within = limitBodySize(post('12345', 'text/plain'), 5);
+        const over = await rejection(limitBodySize(post('123456', 'text/plain'), 5).text());
+
+        expect(await within.text()).toBe('12345');
+        expect(over.status).toBe(413);
+        expect(over.message).toBe('Payload Too Large');
+    });
+
+    it('should keep the params, query and route of the request', () => {
+        const request = Object.assign(post('12345', 'text/plain'), {
+            params: { id: '1' },
+            query: { tab: 'posts' },
+            route: '/items/:id',
+        });
+
+        const limited = limitBodySize(request, 5);
+
+        expect(limited).not.toBe(request);
+        expect(limited).toMatchObject({
+            params: { id: '1' },
+            query: { tab: 'posts' },
+            route: '/items/:id',
+        });
+    });
+});
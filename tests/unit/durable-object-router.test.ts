@@ -8,24 +8,29 @@ import {
 } from '../../src/router';
 import { HttpError, ResponseContext } from '../../src/index';
 import { Logger } from '../../src/logger';
+import { createTraceContext } from '../../src/trace';
+import { createBodyReader } from '../../src/body';
+import { jsonSerializer, textSerializer } from '../../src/serializers';
+import { object, string } from './helpers/standard-schema';
 
 // Mock DurableObjectState
-const createMockState = (): DurableObjectState => ({
-    id: {
-        toString: () => 'test-id',
-        equals: () => false,
-        name: 'test-name',
-    } as DurableObjectId,
-    storage: {
-        get: vi.fn(),
-        put: vi.fn(),
-        delete: vi.fn(),
-        list: vi.fn(),
-    } as unknown as DurableObjectStorage,
-    blockConcurrencyWhile: vi.fn(async (callback: () => Promise<void>) => callback()),
-    waitUntil: vi.fn(),
-    abort: vi.fn(),
-});
+const createMockState = (): DurableObjectState =>
+    ({
+        id: {
+            toString: () => 'test-id',
+            equals: () => false,
+            name: 'test-name',
+        } as DurableObjectId,
+        storage: {
+            get: vi.fn(),
+            put: vi.fn(),
+            delete: vi.fn(),
+            list: vi.fn(),
+        } as unknown as DurableObjectStorage,
+        blockConcurrencyWhile: vi.fn(async (callback: () => Promise<void>) => callback()),
+        waitUntil: vi.fn(),
+        abort: vi.fn(),
+    }) as unknown as DurableObjectState;
 
 // Helper to create a mock DurableObjectContext (per-request data only)
 function createMockDOContext<
@@ -38,6 +43,11 @@ function createMockDOContext<
         data: {} as D,
         response: new ResponseContext(),
         log: new Logger('test', 'fatal'),
+        url: vi.fn(),
+        requestId: 'test-request-id',
+        trace: createTraceContext(request),
+        after: vi.fn(),
+        ...createBodyReader(request),
     };
 }
 
@@ -246,7 +256,7 @@ describe('DurableObjectRouter', () => {
 
             expect(response.status).toBe(400);
             const body = await response.json();
-            expect(body).toEqual({ error: 'Bad Request' });
+            expect(body).toEqual({ error: 'Bad Request', requestId: expect.any(String) });
         });
 
         it('should handle generic errors as 500 in route handler', async () => {
@@ -264,7 +274,7 @@ describe('DurableObjectRouter', () => {
 
             expect(response.status).toBe(500);
             const body = await response.json();
-            expect(body).toEqual({ error: 'Internal Server Error' });
+            expect(body).toEqual({ error: 'Internal Server Error', requestId: expect.any(String) });
         });
     });
 
@@ -422,7 +432,7 @@ describe('DurableObjectRouter', () => {
 
             expect(response.status).toBe(401);
             const body = await response.json();
-            expect(body).toEqual({ error: 'Unauthorized' });
+            expect(body).toEqual({ error: 'Unauthorized', requestId: expect.any(String) });
         });
     });
 
@@ -454,7 +464,7 @@ describe('DurableObjectRouter', () => {
 
             expect(response.status).toBe(404);
             const body = await response.json();
-            expect(body).toEqual({ error: 'Not found' });
+            expect(body).toEqual({ error: 'Not found', requestId: expect.any(String) });
         });
     });
 
@@ -633,7 +643,7 @@ describe('DurableObjectRouteHandler', () => {
 
     it('should allow subclass to implement GET', async () => {
         class CustomDOHandler extends DurableObjectRouteHandler<Env> {
-            async get() {
+            async get(_ctx: DurableObjectContext) {
                 return { message: 'DO custom GET' };
             }
         }
@@ -731,3 +741,680 @@ describe('DurableObjectContext', () => {
         expect(ctx.data.userId).toBe('user-456');
     });
 });
+
+describe('DurableObjectRouter.mount()', () => {
+    let mockState: DurableObjectState;
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        mockState = createMockState();
+        mockEnv = { LOG_LEVEL: 'fatal' };
+    });
+
+    class ItemHandler extends DurableObjectRouteHandler<Env, { id: string }> {
+        async get(ctx: DurableObjectContext<{ id: string }>) {
+            return { id: ctx.params.id, sameState: this.state === mockState };
+        }
+    }
+
+    it("should re-base child routes under the prefix using the parent's state", async () => {
+        const child = new DurableObjectRouter(mockState, mockEnv, 'items').defineRouteHandler(
+            '/:id',
+            ItemHandler
+        );
+        const router = new DurableObjectRouter(mockState, mockEnv, 'test').mount('/items', child);
+
+        const response = await router.handle(new Request('https://example.com/items/42'));
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ id: '42', sameState: true });
+    });
+
+    it('should run parent middleware before child middleware', async () => {
+        const executionOrder: string[] = [];
+
+        const child = new DurableObjectRouter(mockState, mockEnv, 'items')
+            .use(async (ctx, state, next) => {
+                executionOrder.push('child');
+                return next();
+            })
+            .defineRouteHandler('/:id', ItemHandler);
+        const router = new DurableObjectRouter(mockState, mockEnv, 'test')
+            .use(async (ctx, state, next) => {
+                executionOrder.push('parent');
+                return next();
+            })
+            .mount('/items', child);
+
+        await router.handle(new Request('https://example.com/items/1'));
+
+        expect(executionOrder).toEqual(['parent', 'child']);
+    });
+
+    it("should let the child's corsConfig override the parent's for its subtree", async () => {
+        const child = new DurableObjectRouter(mockState, mockEnv, 'items', {
+            cors: { origins: 'https://items.example.com' },
+        }).defineRouteHandler('/:id', ItemHandler);
+        const router = new DurableObjectRouter(mockState, mockEnv, 'test', {
+            cors: { origins: '*' },
+        }).mount('/items', child);
+
+        const response = await router.handle(new Request('https://example.com/items/1'));
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe(
+            'https://items.example.com'
+        );
+
+        const notFound = await router.handle(new Request('https://example.com/other'));
+        expect(notFound.status).toBe(404);
+        expect(notFound.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+});
+
+describe('DurableObjectRouter.group()', () => {
+    it('should apply group middleware and error mapper only to routes in the group', async () => {
+        const mockState = createMockState();
+        const executionOrder: string[] = [];
+
+        class FailingHandler extends DurableObjectRouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new Error('storage unavailable');
+            }
+        }
+
+        class OkHandler extends DurableObjectRouteHandler<Env> {
+            async get() {
+                return { ok: true };
+            }
+        }
+
+        const router = new DurableObjectRouter(mockState, { LOG_LEVEL: 'fatal' }, 'test')
+            .group('/admin', { errorMapper: () => new HttpError(503, 'Try again later') }, (g) =>
+                g
+                    .use(async (ctx, state, next) => {
+                        executionOrder.push('admin');
+                        return next();
+                    })
+                    .defineRouteHandler('/fail', FailingHandler)
+            )
+            .defineRouteHandler('/ok', OkHandler);
+
+        const failed = await router.handle(new Request('https://example.com/admin/fail'));
+        expect(failed.status).toBe(503);
+        expect(executionOrder).toEqual(['admin']);
+
+        const ok = await router.handle(new Request('https://example.com/ok'));
+        expect(ok.status).toBe(200);
+        expect(executionOrder).toEqual(['admin']);
+    });
+});
+
+describe('DurableObjectRouter 405 handling', () => {
+    it('should return 405 with an Allow header for unimplemented methods', async () => {
+        class ReadOnlyHandler extends DurableObjectRouteHandler<Env> {
+            async get() {
+                return { read: true };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/items', ReadOnlyHandler);
+
+        const response = await router.handle(
+            new Request('https://example.com/items', { method: 'PATCH' })
+        );
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+
+        const options = await router.handle(
+            new Request('https://example.com/items', { method: 'OPTIONS' })
+        );
+        expect(options.status).toBe(204);
+        expect(options.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    });
+});
+
+describe('DurableObjectRouter HEAD requests', () => {
+    it('should run get() and strip the body', async () => {
+        class ResourceHandler extends DurableObjectRouteHandler<Env> {
+            async get(ctx: DurableObjectContext) {
+                ctx.response.headers.set('ETag', '"v1"');
+                return { name: 'resource' };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/resource', ResourceHandler);
+
+        const response = await router.handle(
+            new Request('https://example.com/resource', { method: 'HEAD' })
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('ETag')).toBe('"v1"');
+        expect(response.headers.get('Content-Length')).toBe('19');
+        expect(await response.text()).toBe('');
+    });
+});
+
+describe('DurableObjectRouter extension HTTP methods', () => {
+    it('should dispatch methods declared in the static methods map', async () => {
+        class CollectionHandler extends DurableObjectRouteHandler<Env> {
+            static methods = { PROPFIND: 'propfind' };
+
+            async propfind() {
+                return { properties: ['size'] };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/files', CollectionHandler);
+
+        const response = await router.handle(
+            new Request('https://example.com/files', { method: 'PROPFIND' })
+        );
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ properties: ['size'] });
+
+        const notAllowed = await router.handle(new Request('https://example.com/files'));
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get('Allow')).toBe('PROPFIND, OPTIONS');
+    });
+});
+
+describe('DurableObjectRouter.routes()', () => {
+    it('should describe registered routes', () => {
+        class CounterHandler extends DurableObjectRouteHandler<Env> {
+            async post() {
+                return {};
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/count', CounterHandler);
+
+        expect(router.routes()).toEqual([
+            {
+                path: '/count',
+                methods: ['POST'],
+                handler: 'CounterHandler',
+                middleware: [],
+                cors: undefined,
+                handlerCors: false,
+            },
+        ]);
+    });
+});
+
+describe('DurableObjectRouter route conflict detection', () => {
+    class ItemHandler extends DurableObjectRouteHandler<Env> {
+        async get() {
+            return {};
+        }
+    }
+
+    it('should throw for shadowed routes in strict mode', () => {
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test', {
+            strict: true,
+        })
+            .defineRouteHandler('/items/*', ItemHandler)
+            .defineRouteHandler('/items/latest', ItemHandler);
+
+        expect(() => router.build()).toThrow(
+            'GET, HEAD /items/latest is shadowed by earlier route /items/*'
+        );
+    });
+
+    it('should log a warning at build time outside strict mode', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'warn' }, 'test')
+            .defineRouteHandler('/items/:id', ItemHandler)
+            .defineRouteHandler('/items/:itemId', ItemHandler)
+            .build();
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain(
+            'GET, HEAD /items/:itemId duplicates earlier route /items/:id'
+        );
+        warn.mockRestore();
+    });
+});
+
+describe('DurableObjectRouter handler logger', () => {
+    it('should give handlers the request logger as this.log', async () => {
+        class CounterHandler extends DurableObjectRouteHandler<Env> {
+            count = 0;
+
+            async post() {
+                this.count++;
+                this.log.info('Counted', { count: this.count });
+                return { count: this.count };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'info' },
+            'test'
+        ).defineRouteHandler('/count', CounterHandler);
+        const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+        const post = (id: string) =>
+            router.handle(
+                new Request('https://example.com/count', {
+                    method: 'POST',
+                    headers: { 'X-Request-Id': id },
+                })
+            );
+        await post('req-1');
+        const second = await post('req-2');
+        const lines = info.mock.calls
+            .map(([line]) => String(line))
+            .filter((line) => line.includes('Counted'));
+        vi.restoreAllMocks();
+
+        // Handler state is still shared across requests
+        expect(await second.json()).toEqual({ count: 2 });
+        expect(lines).toEqual([
+            '[test] Counted {"requestId":"req-1","count":1}',
+            '[test] Counted {"requestId":"req-2","count":2}',
+        ]);
+    });
+});
+
+describe('DurableObjectRouter named routes', () => {
+    it('should build URLs with router.url() and ctx.url()', async () => {
+        class ItemsHandler extends DurableObjectRouteHandler<Env> {
+            async post(ctx: DurableObjectContext) {
+                ctx.response.status = 201;
+                ctx.response.headers.set('Location', ctx.url('item', { id: 'a/b' }));
+                return {};
+            }
+        }
+
+        class ItemHandler extends DurableObjectRouteHandler<Env, { id: string }> {
+            async get() {
+                return {};
+            }
+        }
+
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test')
+            .defineRouteHandler('/items', ItemsHandler)
+            .defineRouteHandler('/items/:id', ItemHandler, { name: 'item' });
+
+        expect(router.url('item', { id: 5 })).toBe('/items/5');
+
+        const response = await router.handle(
+            new Request('https://example.com/items', { method: 'POST' })
+        );
+        expect(response.headers.get('Location')).toBe('/items/a%2Fb');
+    });
+
+    it('should include the router base in named route URLs', async () => {
+        class ItemHandler extends DurableObjectRouteHandler<Env, { id: string }> {
+            async get(ctx: DurableObjectContext) {
+                return { self: ctx.url('item', ctx.params) };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test',
+            undefined,
+            { base: '/do' }
+        ).defineRouteHandler('/items/:id', ItemHandler, { name: 'item' });
+
+        expect(router.url('item', { id: 5 })).toBe('/do/items/5');
+
+        const response = await router.handle(new Request('https://example.com/do/items/7'));
+        expect(await response.json()).toEqual({ self: '/do/items/7' });
+    });
+});
+
+describe('DurableObjectRouter param constraints', () => {
+    it('should coerce typed params and 404 on mismatches', async () => {
+        class EntryHandler extends DurableObjectRouteHandler<Env, { seq: number }> {
+            async get(ctx: DurableObjectContext<{ seq: number }>) {
+                return { next: ctx.params.seq + 1 };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/log/:seq<int>', EntryHandler);
+
+        const response = await router.handle(new Request('https://example.com/log/41'));
+        expect(await response.json()).toEqual({ next: 42 });
+
+        const mismatch = await router.handle(new Request('https://example.com/log/latest'));
+        expect(mismatch.status).toBe(404);
+    });
+});
+
+describe('DurableObjectRouter middleware path params', () => {
+    it('should expose params captured by middleware paths', async () => {
+        class DocumentHandler extends DurableObjectRouteHandler<Env> {
+            async get(ctx: DurableObjectContext) {
+                return { data: ctx.data };
+            }
+        }
+
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test')
+            .use('/spaces/:spaceId/*', async (ctx, state, next) => {
+                ctx.data.spaceId = ctx.params.spaceId;
+                return next();
+            })
+            .defineRouteHandler('/spaces/*', DocumentHandler);
+
+        const response = await router.handle(new Request('https://example.com/spaces/s1/docs'));
+
+        expect(await response.json()).toEqual({ data: { spaceId: 's1' } });
+    });
+});
+
+describe('DurableObjectRouter per-route middleware', () => {
+    it('should run route options and handler class middleware in order', async () => {
+        const calls: string[] = [];
+
+        class DocumentHandler extends DurableObjectRouteHandler<Env> {
+            static middleware: DurableObjectMiddleware[] = [
+                async (ctx, state, next) => {
+                    calls.push('class');
+                    return next();
+                },
+            ];
+
+            async get() {
+                calls.push('handler');
+                return { ok: true };
+            }
+        }
+
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test')
+            .use(async (ctx, state, next) => {
+                calls.push('global');
+                return next();
+            })
+            .defineRouteHandler('/docs', DocumentHandler, {
+                middleware: {
+                    GET: [
+                        async (ctx, state, next) => {
+                            calls.push('route');
+                            return next();
+                        },
+                    ],
+                },
+            });
+
+        await router.handle(new Request('https://example.com/docs'));
+
+        expect(calls).toEqual(['global', 'route', 'class', 'handler']);
+    });
+});
+
+describe('DurableObjectRouter.route()', () => {
+    it('should serve data returned by handler functions with the state', async () => {
+        const state = createMockState();
+
+        const router = new DurableObjectRouter(state, { LOG_LEVEL: 'fatal' }, 'test');
+        router.route('/state').get(async (ctx, state) => ({ id: state.id.toString() }));
+
+        const response = await router.handle(new Request('https://example.com/state'));
+
+        expect(await response.json()).toEqual({ id: 'test-id' });
+    });
+});
+
+describe('DurableObjectRouter not found and method not allowed handlers', () => {
+    class DocumentHandler extends DurableObjectRouteHandler<Env> {
+        async get() {
+            return { ok: true };
+        }
+    }
+
+    it('should use the configured handlers', async () => {
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test', {
+            notFound: () => new Response('missing', { status: 404 }),
+            methodNotAllowed: (ctx, allowedMethods) =>
+                new Response(null, { status: 405, headers: { Allow: allowedMethods.join(', ') } }),
+        }).defineRouteHandler('/docs', DocumentHandler);
+
+        const notFound = await router.handle(new Request('https://example.com/missing'));
+        const notAllowed = await router.handle(
+            new Request('https://example.com/docs', { method: 'PUT' })
+        );
+
+        expect(await notFound.text()).toBe('missing');
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    });
+});
+
+describe('DurableObjectRouter error hooks', () => {
+    class ConflictError extends Error {}
+
+    it('should apply onError() and mapError() hooks', async () => {
+        class DocumentHandler extends DurableObjectRouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new ConflictError('Version mismatch');
+            }
+            async put(): Promise<any> {
+                throw new Error('storage unavailable');
+            }
+        }
+
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test')
+            .mapError(ConflictError, 409)
+            .onError(() => new Response('retry later', { status: 503 }))
+            .defineRouteHandler('/docs', DocumentHandler);
+
+        const conflict = await router.handle(new Request('https://example.com/docs'));
+        const unavailable = await router.handle(
+            new Request('https://example.com/docs', { method: 'PUT' })
+        );
+
+        expect(conflict.status).toBe(409);
+        expect(await conflict.json()).toEqual({
+            error: 'Version mismatch',
+            requestId: expect.any(String),
+        });
+        expect(unavailable.status).toBe(503);
+    });
+});
+
+describe('DurableObjectRouter Problem Details error format', () => {
+    it('should format errors and the built-in 404 as Problem Details', async () => {
+        class DocumentHandler extends DurableObjectRouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new HttpError(403, 'Read-only document');
+            }
+        }
+
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test', {
+            errorFormat: 'problem',
+        }).defineRouteHandler('/docs', DocumentHandler);
+
+        const forbidden = await router.handle(new Request('https://example.com/docs'));
+        const notFound = await router.handle(new Request('https://example.com/missing'));
+
+        expect(await forbidden.json()).toEqual({
+            type: 'about:blank',
+            title: 'Forbidden',
+            status: 403,
+            detail: 'Read-only document',
+            instance: '/docs',
+            requestId: expect.any(String),
+        });
+        expect(notFound.headers.get('Content-Type')).toBe('application/problem+json');
+    });
+});
+
+describe('DurableObjectRouter request IDs', () => {
+    it('should adopt the request ID and include it in responses and error bodies', async () => {
+        class EchoHandler extends DurableObjectRouteHandler<Env> {
+            async get(ctx: DurableObjectContext) {
+                return { requestId: ctx.requestId, traceId: ctx.trace.traceId };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/echo', EchoHandler);
+        const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+        const headers = { traceparent: `00-${traceId}-00f067aa0ba902b7-01` };
+
+        const echo = await router.handle(new Request('https://example.com/echo', { headers }));
+        const missing = await router.handle(
+            new Request('https://example.com/missing', { headers: { 'X-Request-Id': 'req-1' } })
+        );
+
+        expect(await echo.json()).toEqual({ requestId: traceId, traceId });
+        expect(echo.headers.get('X-Request-Id')).toBe(traceId);
+        expect(await missing.json()).toEqual({ error: 'Not found', requestId: 'req-1' });
+        expect(missing.headers.get('X-Request-Id')).toBe('req-1');
+    });
+});
+
+describe('DurableObjectRouter after-response tasks', () => {
+    it('should run tasks after the response, passing them to state.waitUntil', async () => {
+        const events: string[] = [];
+        class CounterHandler extends DurableObjectRouteHandler<Env> {
+            async post(ctx: DurableObjectContext) {
+                ctx.after(() => events.push('task'));
+                events.push('handler');
+                return { count: 1 };
+            }
+        }
+
+        const state = createMockState();
+        const router = new DurableObjectRouter(
+            state,
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/counter', CounterHandler);
+
+        await router.handle(new Request('https://example.com/counter', { method: 'POST' }));
+        events.push('response');
+
+        expect(state.waitUntil).toHaveBeenCalledOnce();
+        await vi.mocked(state.waitUntil).mock.calls[0][0];
+        expect(events).toEqual(['handler', 'response', 'task']);
+    });
+});
+
+describe('DurableObjectRouter body helpers', () => {
+    it('should parse form bodies on the context', async () => {
+        class SignupHandler extends DurableObjectRouteHandler<Env> {
+            async post(ctx: DurableObjectContext) {
+                const form = await ctx.form();
+                return { email: form.get('email') };
+            }
+        }
+
+        const router = new DurableObjectRouter(
+            createMockState(),
+            { LOG_LEVEL: 'fatal' },
+            'test'
+        ).defineRouteHandler('/signup', SignupHandler);
+
+        const response = await router.handle(
+            new Request('https://example.com/signup', {
+                method: 'POST',
+                body: new URLSearchParams({ email: 'ada@example.com' }),
+            })
+        );
+        const unsupported = await router.handle(
+            new Request('https://example.com/signup', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{}',
+            })
+        );
+
+        expect(await response.json()).toEqual({ email: 'ada@example.com' });
+        expect(unsupported.status).toBe(415);
+    });
+});
+
+describe('DurableObjectRouter schema validation', () => {
+    it('should validate requests before function handlers', async () => {
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test');
+        router
+            .route('/notes', { schemas: { body: object({ text: string }) } })
+            .post(async (ctx) => ({ saved: (await ctx.json()).text }));
+
+        const post = (body: string) =>
+            router.handle(
+                new Request('https://example.com/notes', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body,
+                })
+            );
+        const saved = await post('{"text":"hi"}');
+        const invalid = await post('{"text":1}');
+
+        expect(await saved.json()).toEqual({ saved: 'hi' });
+        expect(invalid.status).toBe(400);
+        expect(await invalid.json()).toEqual({
+            error: 'Validation failed',
+            issues: [{ location: 'body', path: ['text'], message: 'Expected a string' }],
+            requestId: expect.any(String),
+        });
+    });
+});
+
+describe('DurableObjectRouter body size limits', () => {
+    it('should respond 413 to bodies over the limit', async () => {
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test', {
+            maxBodySize: 4,
+        });
+        router.route('/notes').post(async (ctx) => ({ text: await ctx.text() }));
+
+        const post = (body: string) =>
+            router.handle(new Request('https://example.com/notes', { method: 'POST', body }));
+        const saved = await post('1234');
+        const rejected = await post('12345');
+
+        expect(await saved.json()).toEqual({ text: '1234' });
+        expect(rejected.status).toBe(413);
+    });
+});
+
+describe('DurableObjectRouter content negotiation', () => {
+    it('should serialize handler data for the Accept header', async () => {
+        const router = new DurableObjectRouter(createMockState(), { LOG_LEVEL: 'fatal' }, 'test', {
+            serializers: { 'application/json': jsonSerializer, 'text/plain': textSerializer },
+        });
+        const handler = vi.fn(async () => 'hello');
+        router.route('/greeting').get(handler);
+
+        const get = (accept: string) =>
+            router.handle(
+                new Request('https://example.com/greeting', { headers: { Accept: accept } })
+            );
+        const rejected = await get('text/csv');
+        expect(handler).not.toHaveBeenCalled();
+        const text = await get('text/plain');
+
+        expect(text.headers.get('Content-Type')).toBe('text/plain');
+        expect(await text.text()).toBe('hello');
+        expect(rejected.status).toBe(406);
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * In-memory R2 bucket, standing in for an R2 binding with the rules putPartToR2 relies on
+ */
+
+/** Minimum size of every multipart upload part but the last */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export interface StoredObject {
+    bytes: Uint8Array;
+    httpMetadata?: R2HTTPMetadata;
+    customMetadata?: Record<string, string>;
+}
+
+async function toBytes(value: unknown): Promise<Uint8Array> {
+    if (value === null) return new Uint8Array(0);
+    if (typeof value === 'string') return new TextEncoder().encode(value);
+    if (value instanceof ArrayBuffer) return new Uint8Array(value);
+    if (ArrayBuffer.isView(value)) {
+        return new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice();
+    }
+    if (value instanceof ReadableStream) {
+        // Like R2, refuse streams whose length isn't known up front
+        throw new TypeError('Provided readable stream must have a known length');
+    }
+    return new Uint8Array(await (value as Blob).arrayBuffer());
+}
+
+function toObject(key: string, stored: StoredObject): R2Object {
+    return {
+        key,
+        size: stored.bytes.length,
+        httpMetadata: stored.httpMetadata,
+        customMetadata: stored.customMetadata,
+    } as R2Object;
+}
+
+export class MemoryR2Bucket {
+    objects = new Map<string, StoredObject>();
+    /** Upload IDs of multipart uploads, by state */
+    uploads = { completed: [] as string[], aborted: [] as string[] };
+
+    async head(key: string): Promise<R2Object | null> {
+        const stored = this.objects.get(key);
+        return stored ? toObject(key, stored) : null;
+    }
+
+    async get(key: string): Promise<R2ObjectBody | null> {
+        const stored = this.objects.get(key);
+        if (!stored) return null;
+        return Object.assign(toObject(key, stored), {
+            text: async () => new TextDecoder().decode(stored.bytes),
+            arrayBuffer: async () => stored.bytes.slice().buffer,
+        }) as unknown as R2ObjectBody;
+    }
+
+    async put(key: string, value: unknown, options?: R2PutOptions): Promise<R2Object> {
+        const stored = {
+            bytes: await toBytes(value),
+            httpMetadata: options?.httpMetadata as R2HTTPMetadata | undefined,
+            customMetadata: options?.customMetadata,
+        };
+        this.objects.set(key, stored);
+        return toObject(key, stored);
+    }
+
+    async delete(keys: string | string[]): Promise<void> {
+        for (const key of Array.isArray(keys) ? keys : [keys]) this.objects.delete(key);
+    }
+
+    async createMultipartUpload(
+        key: string,
+        options?: R2MultipartOptions
+    ): Promise<R2MultipartUpload> {
+        const uploadId = crypto.randomUUID();
+        const parts = new Map<number, Uint8Array>();
+
+        return {
+            key,
+            uploadId,
+            uploadPart: async (partNumber: number, value: unknown) => {
+                parts.set(partNumber, await toBytes(value));
+                return { partNumber, etag: `${uploadId}-${partNumber}` };
+            },
+            abort: async () => {
+                this.uploads.aborted.push(uploadId);
+            },
+            complete: async (uploaded: R2UploadedPart[]) => {
+                const pieces = uploaded.map(({ partNumber }) => parts.get(partNumber)!);
+                const size = pieces[0].length;
+                // R2 requires equal parts of at least 5 MiB, except for the last
+                if (pieces.slice(0, -1).some((piece) => piece.length !== size)) {
+                    throw new Error('All non-trailing parts must have the same length');
+                }
+                if (pieces.length > 1 && size < MIN_PART_SIZE) {
+                    throw new Error('Your proposed upload is smaller than the minimum allowed');
+                }
+                const bytes = new Uint8Array(pieces.reduce((sum, piece) => sum + piece.length, 0));
+                let offset = 0;
+                for (const piece of pieces) {
+                    bytes.set(piece, offset);
+                    offset += piece.length;
+                }
+                this.uploads.completed.push(uploadId);
+                return this.put(key, bytes, options as R2PutOptions);
+            },
+        } as R2MultipartUpload;
+    }
+
+    /** The bucket as an R2 binding */
+    asBinding(): R2Bucket {
+        return this as unknown as R2Bucket;
+    }
+}
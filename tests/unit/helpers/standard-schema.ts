@@ -0,0 +1,49 @@
+import { StandardSchemaV1 } from '../../../src/schema';
+
+/**
+ * Minimal Standard Schema implementation, standing in for zod, valibot and the like
+ */
+
+/** Field validator: returns the (coerced) value or throws the issue message */
+export type Field<T> = (value: unknown) => T;
+
+export const string: Field<string> = (value) => {
+    if (typeof value !== 'string') throw 'Expected a string';
+    return value;
+};
+
+export const number: Field<number> = (value) => {
+    const parsed = typeof value === 'string' && value !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || Number.isNaN(parsed)) throw 'Expected a number';
+    return parsed;
+};
+
+export function optional<T>(field: Field<T>): Field<T | undefined> {
+    return (value) => (value === undefined ? undefined : field(value));
+}
+
+/** Object schema: validates the shape's keys and drops unknown keys */
+export function object<T>(shape: { [K in keyof T]: Field<T[K]> }): StandardSchemaV1<unknown, T> {
+    return {
+        '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate(value) {
+                if (typeof value !== 'object' || value === null) {
+                    return { issues: [{ message: 'Expected an object' }] };
+                }
+                const input = value as Record<string, unknown>;
+                const output = {} as T;
+                const issues: StandardSchemaV1.Issue[] = [];
+                for (const key in shape) {
+                    try {
+                        output[key] = shape[key](input[key]);
+                    } catch (message) {
+                        issues.push({ message: String(message), path: [{ key }] });
+                    }
+                }
+                return issues.length > 0 ? { issues } : { value: output };
+            },
+        },
+    };
+}
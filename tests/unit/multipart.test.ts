@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import { MultipartPart, parseMultipart, putPartToR2 } from '../../src/multipart';
+import { HttpError } from '../../src/index';
+import { MemoryR2Bucket } from './helpers/r2';
+
+const BOUNDARY = 'test-boundary';
+
+/** Request with a raw multipart body, streamed in chunks of the given size */
+function upload(raw: string | Uint8Array, chunkSize = Infinity): Request {
+    const bytes = typeof raw === 'string' ? new TextEncoder().encode(raw) : raw;
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < bytes.length; i += chunkSize) {
+                controller.enqueue(bytes.slice(i, i + chunkSize));
+            }
+            controller.close();
+        },
+    });
+    return new Request('https://example.com/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+        body,
+        duplex: 'half',
+    } as RequestInit);
+}
+
+/** Raw multipart body of a field and a file */
+const RAW = [
+    'preamble to ignore',
+    `--${BOUNDARY}`,
+    'Content-Disposition: form-data; name="title"',
+    '',
+    'Holiday',
+    `--${BOUNDARY}`,
+    'Content-Disposition: form-data; name="photo"; filename="beach \\"1\\".txt"',
+    'Content-Type: image/png',
+    '',
+    `line one\r\n--${BOUNDARY.slice(0, 5)} not a boundary`,
+    `--${BOUNDARY}--`,
+    'epilogue to ignore',
+].join('\r\n');
+
+async function collect(parts: AsyncIterable<MultipartPart>) {
+    const result = [];
+    for await (const part of parts) {
+        const { name, filename, contentType } = part;
+        result.push({ name, filename, contentType, text: await part.text() });
+    }
+    return result;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HttpError> {
+    const error = await promise.then(
+        () => undefined,
+        (error: unknown) => error
+    );
+    expect(error).toBeInstanceOf(HttpError);
+    return error as HttpError;
+}
+
+describe('parseMultipart', () => {
+    const expected = [
+        { name: 'title', filename: undefined, contentType: 'text/plain', text: 'Holiday' },
+        {
+            name: 'photo',
+            filename: 'beach "1".txt',
+            contentType: 'image/png',
+            text: `line one\r\n--${BOUNDARY.slice(0, 5)} not a boundary`,
+        },
+    ];
+
+    it('should stream the parts of a body', async () => {
+        expect(await collect(parseMultipart(upload(RAW)))).toEqual(expected);
+    });
+
+    it('should find boundaries split across chunks', async () => {
+        expect(await collect(parseMultipart(upload(RAW, 1)))).toEqual(expected);
+        expect(await collect(parseMultipart(upload(RAW, 7)))).toEqual(expected);
+    });
+
+    it('should parse bodies encoded by FormData', async () => {
+        const data = new FormData();
+        data.append('name', 'Ada');
+        data.append('file', new Blob(['hello'], { type: 'text/csv' }), 'notes.csv');
+        const request = new Request('https://example.com/', { method: 'POST', body: data });
+
+        expect(await collect(parseMultipart(request))).toEqual([
+            { name: 'name', filename: undefined, contentType: 'text/plain', text: 'Ada' },
+            { name: 'file', filename: 'notes.csv', contentType: 'text/csv', text: 'hello' },
+        ]);
+    });
+
+    it('should parse part headers that are not Latin-1', async () => {
+        const raw = [
+            `--${BOUNDARY}`,
+            'Content-Disposition: form-data; name="file"; filename="文件.txt"',
+            'Content-Type: text/plain',
+            'X-Tag: a',
+            'X-Tag: b',
+            '',
+            'contents',
+            `--${BOUNDARY}--`,
+        ].join('\r\n');
+
+        const part = (await parseMultipart(upload(raw)).next()).value as MultipartPart;
+
+        expect(part.filename).toBe('文件.txt');
+        expect(part.headers).toEqual({
+            'content-disposition': 'form-data; name="file"; filename="文件.txt"',
+            'content-type': 'text/plain',
+            'x-tag': 'a, b',
+        });
+        expect(await part.text()).toBe('contents');
+    });
+
+    it('should skip the unread body of a part', async () => {
+        const names = [];
+        for await (const part of parseMultipart(upload(RAW, 3))) {
+            names.push(part.name);
+        }
+
+        expect(names).toEqual(['title', 'photo']);
+    });
+
+    it('should release the body when iteration stops early', async () => {
+        const request = upload(RAW, 3);
+        for await (const part of parseMultipart(request)) {
+            expect(part.name).toBe('title');
+            break;
+        }
+
+        expect(request.body!.locked).toBe(false);
+    });
+
+    it('should fail reads of files over maxFileSize with 413', async () => {
+        const parts = parseMultipart(upload(RAW), { maxFileSize: 8 });
+
+        const title = (await parts.next()).value as MultipartPart;
+        expect(await title.text()).toBe('Holiday');
+        const photo = (await parts.next()).value as MultipartPart;
+        const error = await rejection(photo.text());
+
+        expect(error.status).toBe(413);
+        expect(error.message).toBe('File Too Large');
+        await expect(parts.next()).rejects.toBe(error);
+    });
+
+    it('should reject malformed bodies with 400', async () => {
+        const truncated = await rejection(collect(parseMultipart(upload(RAW.slice(0, 120)))));
+        const unnamed = await rejection(
+            collect(parseMultipart(upload(`--${BOUNDARY}\r\n\r\nvalue\r\n--${BOUNDARY}--`)))
+        );
+        const noBoundary = await rejection(
+            parseMultipart(
+                new Request('https://example.com/', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'multipart/form-data' },
+                    body: RAW,
+                })
+            ).next()
+        );
+
+        expect(truncated.status).toBe(400);
+        expect(truncated.message).toBe('Malformed multipart body');
+        expect(unnamed.status).toBe(400);
+        expect(noBoundary.status).toBe(400);
+    });
+
+    it('should reject other content types with 415', async () => {
+        const request = new Request('https://example.com/', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: '{}',
+        });
+
+        const error = await rejection(parseMultipart(request).next());
+
+        expect(error.status).toBe(415);
+    });
+});
+
+describe('putPartToR2', () => {
+    const MiB = 1024 * 1024;
+
+    function fileUpload(size: number): Request {
+        const head = new TextEncoder().encode(
+            `--${BOUNDARY}\r\n` +
+                'Content-Disposition: form-data; name="file"; filename="data.bin"\r\n' +
+                'Content-Type: application/octet-stream\r\n\r\n'
+        );
+        const tail = new TextEncoder().encode(`\r\n--${BOUNDARY}--\r\n`);
+        const raw = new Uint8Array(head.length + size + tail.length);
+        raw.set(head);
+        raw.fill(7, head.length, head.length + size);
+        raw.set(tail, head.length + size);
+        return upload(raw, 64 * 1024);
+    }
+
+    async function firstPart(request: Request, maxFileSize?: number): Promise<MultipartPart> {
+        return (await parseMultipart(request, { maxFileSize }).next()).value as MultipartPart;
+    }
+
+    it('should store small parts with one put', async () => {
+        const bucket = new MemoryR2Bucket();
+
+        const object = await putPartToR2(bucket.asBinding(), 'photo', await firstPart(upload(RAW)));
+
+        expect(object.key).toBe('photo');
+        expect(await (await bucket.get('photo'))!.text()).toBe('Holiday');
+        expect(bucket.objects.get('photo')!.httpMetadata).toEqual({ contentType: 'text/plain' });
+        expect(bucket.uploads.completed).toEqual([]);
+    });
+
+    it('should stream large parts with a multipart upload', async () => {
+        const bucket = new MemoryR2Bucket();
+        const part = await firstPart(fileUpload(11 * MiB));
+
+        const object = await putPartToR2(bucket.asBinding(), 'data', part, {
+            customMetadata: { owner: 'ada' },
+        });
+
+        const stored = bucket.objects.get('data')!;
+        expect(object.size).toBe(11 * MiB);
+        expect(stored.bytes.every((byte) => byte === 7)).toBe(true);
+        expect(stored.httpMetadata).toEqual({ contentType: 'application/octet-stream' });
+        expect(stored.customMetadata).toEqual({ owner: 'ada' });
+        expect(bucket.uploads.completed).toHaveLength(1);
+    });
+
+    it('should abort the upload when reading the part fails', async () => {
+        const bucket = new MemoryR2Bucket();
+        const part = await firstPart(fileUpload(7 * MiB), 6 * MiB);
+
+        const error = await rejection(putPartToR2(bucket.asBinding(), 'data', part));
+
+        expect(error.status).toBe(413);
+        expect(bucket.uploads.aborted).toHaveLength(1);
+        expect(bucket.objects.has('data')).toBe(false);
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { WorkerRouter, RouteHandler, Env, Context, Params } from '../../src/router';
+import { RouteParams, RouteParamNames, buildRoutePath, compilePath } from '../../src/path';
+
+describe('RouteParams', () => {
+    it('should infer param names from the path', () => {
+        expectTypeOf<RouteParamNames<'/users/:id/posts/:postId'>>().toEqualTypeOf<
+            'id' | 'postId'
+        >();
+        expectTypeOf<RouteParamNames<'/health'>>().toEqualTypeOf<never>();
+    });
+
+    it('should strip extensions and greedy markers from param names', () => {
+        expectTypeOf<RouteParamNames<'/files/:path+'>>().toEqualTypeOf<'path'>();
+        expectTypeOf<RouteParamNames<'/files/:name.:ext'>>().toEqualTypeOf<'name' | 'ext'>();
+    });
+
+    it('should infer a params object with optional params', () => {
+        const params: RouteParams<'/users/:id/posts/:postId?'> = { id: '1' };
+        expectTypeOf(params.id).toEqualTypeOf<string>();
+        expectTypeOf(params.postId).toEqualTypeOf<string | undefined>();
+    });
+
+    it('should type params from their param type and ignore inline patterns', () => {
+        type ItemParams = RouteParams<'/items/:id<int>/:rev(\\d+)'>;
+        expectTypeOf<ItemParams['id']>().toEqualTypeOf<number>();
+        expectTypeOf<ItemParams['rev']>().toEqualTypeOf<string>();
+        expectTypeOf<RouteParamNames<'/items/:id<uuid>?'>>().toEqualTypeOf<'id'>();
+        const params: RouteParams<'/items/:id<int>?'> = {};
+        expectTypeOf(params.id).toEqualTypeOf<number | undefined>();
+    });
+
+    it('should fall back to Params for non-literal paths', () => {
+        expectTypeOf<RouteParams<string>>().toEqualTypeOf<Params>();
+    });
+});
+
+describe('defineRouteHandler params checking', () => {
+    type PostParams = RouteParams<'/users/:id/posts/:postId'>;
+
+    class PostHandler extends RouteHandler<Env, PostParams> {
+        async get(ctx: Context<Env, PostParams>) {
+            return { id: ctx.params.id, postId: ctx.params.postId };
+        }
+    }
+
+    class ExtraParamHandler extends RouteHandler<Env, { id: string; orgId: string }> {
+        async get(ctx: Context<Env, { id: string; orgId: string }>) {
+            return ctx.params;
+        }
+    }
+
+    class UntypedHandler extends RouteHandler<Env> {
+        async get() {
+            return {};
+        }
+    }
+
+    it('should accept handlers whose params match the path', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/users/:id/posts/:postId', PostHandler)
+            .defineRouteHandler('/anything/:id', UntypedHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/users/1/posts/2'),
+            { LOG_LEVEL: 'fatal' }
+        );
+        expect(await response.json()).toEqual({ id: '1', postId: '2' });
+    });
+
+    it('should reject handlers declaring params the path does not have', () => {
+        const router = new WorkerRouter<Env>('test');
+
+        // @ts-expect-error - 'orgId' is not a param of '/users/:id'
+        router.defineRouteHandler('/users/:id', ExtraParamHandler);
+
+        // Explicit type arguments opt out of the check (e.g. for params from a mount prefix)
+        router.defineRouteHandler<{ id: string; orgId: string }>('/:id', ExtraParamHandler);
+    });
+});
+
+describe('buildRoutePath', () => {
+    it('should fill and percent-encode params', () => {
+        expect(buildRoutePath('/users/:id/posts/:postId', { id: 'a b', postId: 7 })).toBe(
+            '/users/a%20b/posts/7'
+        );
+        expect(buildRoutePath('/users/:id', { id: 'x/y?z' })).toBe('/users/x%2Fy%3Fz');
+        expect(buildRoutePath('/files/:name.:ext', { name: 'report', ext: 'pdf' })).toBe(
+            '/files/report.pdf'
+        );
+    });
+
+    it('should keep slashes in greedy params', () => {
+        expect(buildRoutePath('/files/:path+', { path: 'docs/q 1.pdf' })).toBe(
+            '/files/docs/q%201.pdf'
+        );
+    });
+
+    it('should drop missing optional params', () => {
+        expect(buildRoutePath('/posts/:id?', {})).toBe('/posts');
+        expect(buildRoutePath('/:lang?', {})).toBe('/');
+        expect(buildRoutePath('/posts/:id?', { id: 3 })).toBe('/posts/3');
+    });
+
+    it('should append the query string', () => {
+        expect(
+            buildRoutePath('/search', {}, { q: 'a&b', tag: ['x', 'y'], page: 2, draft: undefined })
+        ).toBe('/search?q=a%26b&tag=x&tag=y&page=2');
+    });
+
+    it('should check values against param types and patterns', () => {
+        expect(buildRoutePath('/items/:id<int>', { id: 42 })).toBe('/items/42');
+        expect(() => buildRoutePath('/items/:id<int>', { id: 'abc' })).toThrow(
+            "Param 'id' value 'abc' does not match"
+        );
+        expect(() => buildRoutePath('/items/:id(\\d+)', { id: 'abc' })).toThrow(
+            "Param 'id' value 'abc' does not match"
+        );
+    });
+
+    it('should throw for missing params and wildcard paths', () => {
+        expect(() => buildRoutePath('/users/:id', {})).toThrow(
+            "Missing param 'id' for path '/users/:id'"
+        );
+        expect(() => buildRoutePath('/api/*')).toThrow(
+            "Cannot build a URL for wildcard path '/api/*'"
+        );
+    });
+});
+
+describe('compilePath', () => {
+    it('should match itty-router style paths', () => {
+        const { regex } = compilePath('/users/:id/files/:path+');
+
+        expect(regex.exec('/users/1/files/a/b.txt')?.groups).toEqual({
+            id: '1',
+            path: 'a/b.txt',
+        });
+        expect(regex.test('/users/1/files/')).toBe(false);
+        expect(compilePath('/api/*').regex.test('/api')).toBe(true);
+        expect(compilePath('/posts/:id?').regex.test('/posts/')).toBe(true);
+    });
+
+    it('should only match params satisfying their pattern or type', () => {
+        const { regex, parse } = compilePath('/items/:id<int>/:rev(\\d+|latest)');
+
+        expect(regex.test('/items/abc/latest')).toBe(false);
+        expect(regex.test('/items/1/next')).toBe(false);
+        expect(parse(regex.exec('/items/-3/latest')!.groups!)).toEqual({ id: -3, rev: 'latest' });
+        expect(
+            compilePath('/u/:id<uuid>').regex.test('/u/123e4567-e89b-12d3-a456-426614174000')
+        ).toBe(true);
+        expect(compilePath('/p/:slug<slug>').regex.test('/p/Hello_World')).toBe(false);
+    });
+
+    it('should keep middleware wildcard semantics', () => {
+        const { regex } = compilePath('/orgs/:orgId<int>/*', 'middleware');
+
+        expect(regex.test('/orgs/7/members')).toBe(true);
+        expect(regex.test('/orgs/acme/members')).toBe(false);
+        expect(compilePath('/api/*', 'middleware').regex.test('/api')).toBe(false);
+    });
+
+    it('should throw for unknown param types', () => {
+        expect(() => compilePath('/items/:id<float>')).toThrow(
+            "Unknown param type 'float' in path '/items/:id<float>'"
+        );
+    });
+});
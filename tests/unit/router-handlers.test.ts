@@ -2,6 +2,9 @@ import { describe, it, expect, vi } from 'vitest';
 import { buildResponse, buildErrorResponse, Env, Context, Params } from '../../src/router';
 import { HttpError, ResponseContext } from '../../src/index';
 import { Logger } from '../../src/logger';
+import { createTraceContext } from '../../src/trace';
+import { createBodyReader } from '../../src/body';
+import { builtinSerializers, jsonSerializer, textSerializer } from '../../src/serializers';
 
 // Helper to create a mock context
 function createMockContext<E extends Env = Env, P extends Params = Params, D = Record<string, any>>(
@@ -16,6 +19,11 @@ function createMockContext<E extends Env = Env, P extends Params = Params, D = R
         data: {} as D,
         response: new ResponseContext(),
         log: new Logger('test', 'fatal'),
+        url: vi.fn(),
+        requestId: 'test-request-id',
+        trace: createTraceContext(request),
+        after: vi.fn(),
+        ...createBodyReader(request),
     };
 }
 
@@ -89,6 +97,47 @@ describe('buildResponse', () => {
         expect(response).toBe(directResponse);
         expect(response.status).toBe(418);
     });
+
+    it('should serialize with the serializer the Accept header selects', async () => {
+        const ctx = createMockContext(
+            new Request('https://example.com/test', { headers: { Accept: 'text/plain' } }),
+            { LOG_LEVEL: 'fatal' }
+        );
+
+        const response = buildResponse('plain', ctx, undefined, undefined, {
+            'application/json': jsonSerializer,
+            'text/plain': textSerializer,
+        });
+
+        expect(response.headers.get('Content-Type')).toBe('text/plain');
+        expect(response.headers.get('Vary')).toBe('Accept');
+        expect(await response.text()).toBe('plain');
+    });
+
+    it('should fall back to the first serializer when none is acceptable', async () => {
+        const ctx = createMockContext(
+            new Request('https://example.com/test', { headers: { Accept: 'text/html' } }),
+            { LOG_LEVEL: 'fatal' }
+        );
+
+        const response = buildResponse({ a: 1 }, ctx, undefined, undefined, builtinSerializers);
+
+        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(await response.json()).toEqual({ a: 1 });
+    });
+
+    it('should keep a Content-Type set on ctx.response', async () => {
+        const ctx = createMockContext(
+            new Request('https://example.com/test', { headers: { Accept: 'application/json' } }),
+            { LOG_LEVEL: 'fatal' }
+        );
+        ctx.response.headers.set('Content-Type', 'text/csv');
+
+        const response = buildResponse([{ a: 1 }], ctx, undefined, undefined, builtinSerializers);
+
+        expect(response.headers.get('Content-Type')).toBe('text/csv');
+        expect(await response.text()).toBe('a\r\n1\r\n');
+    });
 });
 
 describe('buildErrorResponse', () => {
@@ -100,7 +149,7 @@ describe('buildErrorResponse', () => {
 
         expect(response.status).toBe(500);
         const body = await response.json();
-        expect(body).toEqual({ error: 'Internal Server Error' });
+        expect(body).toEqual({ error: 'Internal Server Error', requestId: 'test-request-id' });
     });
 
     it('should use HttpError status and message', async () => {
@@ -111,7 +160,7 @@ describe('buildErrorResponse', () => {
 
         expect(response.status).toBe(401);
         const body = await response.json();
-        expect(body).toEqual({ error: 'Unauthorized' });
+        expect(body).toEqual({ error: 'Unauthorized', requestId: 'test-request-id' });
     });
 
     it('should include HttpError details in response', async () => {
@@ -129,6 +178,7 @@ describe('buildErrorResponse', () => {
             error: 'Validation failed',
             field: 'email',
             reason: 'invalid format',
+            requestId: 'test-request-id',
         });
     });
 
@@ -167,7 +217,171 @@ describe('buildErrorResponse', () => {
 
         expect(response.status).toBe(404);
         const body = await response.json();
-        expect(body).toEqual({ error: 'Resource not found' });
+        expect(body).toEqual({ error: 'Resource not found', requestId: 'test-request-id' });
+    });
+
+    describe('debug log level', () => {
+        const createDebugContext = () => {
+            const ctx = createMockContext(new Request('https://example.com/test'), {
+                LOG_LEVEL: 'debug',
+            });
+            ctx.log = new Logger('test', 'debug');
+            return ctx;
+        };
+
+        it('should describe the error and its cause chain in 500 bodies', async () => {
+            const error = Object.assign(new Error('Query failed'), {
+                cause: new TypeError('db is undefined'),
+            });
+            const errorLog = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const response = buildErrorResponse(error, createDebugContext());
+            errorLog.mockRestore();
+
+            expect(response.status).toBe(500);
+            const body = await response.json<any>();
+            expect(body.error).toBe('Internal Server Error');
+            expect(body.debug).toMatchObject({
+                name: 'Error',
+                message: 'Query failed',
+                cause: { name: 'TypeError', message: 'db is undefined' },
+            });
+            expect(body.debug.stack).toContain('Query failed');
+        });
+
+        it('should log the error description', () => {
+            const errorLog = vi.spyOn(console, 'error').mockImplementation(() => {});
+            buildErrorResponse(new RangeError('Out of range'), createDebugContext());
+
+            expect(errorLog).toHaveBeenCalledTimes(1);
+            expect(errorLog.mock.calls[0][0]).toContain('"name":"RangeError"');
+            expect(errorLog.mock.calls[0][0]).toContain('"stack":');
+            errorLog.mockRestore();
+        });
+
+        it('should describe thrown non-Error values', async () => {
+            const errorLog = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const response = buildErrorResponse(
+                'oops',
+                createDebugContext(),
+                undefined,
+                undefined,
+                'problem'
+            );
+            errorLog.mockRestore();
+
+            expect(await response.json()).toEqual({
+                type: 'about:blank',
+                title: 'Internal Server Error',
+                status: 500,
+                instance: '/test',
+                debug: { name: 'string', message: 'oops' },
+                requestId: 'test-request-id',
+            });
+        });
+
+        it('should keep 500 bodies opaque at other levels', async () => {
+            const ctx = createMockContext(new Request('https://example.com/test'), {
+                LOG_LEVEL: 'info',
+            });
+            ctx.log = new Logger('test', 'fatal');
+            const response = buildErrorResponse(new Error('secret'), ctx);
+
+            expect(await response.json()).toEqual({
+                error: 'Internal Server Error',
+                requestId: 'test-request-id',
+            });
+        });
+    });
+
+    describe('problem format', () => {
+        it('should return Problem Details for HttpError', async () => {
+            const ctx = createMockContext(new Request('https://example.com/users/42?x=1'), {
+                LOG_LEVEL: 'fatal',
+            });
+            const response = buildErrorResponse(
+                new HttpError(404, 'User 42 does not exist'),
+                ctx,
+                undefined,
+                undefined,
+                'problem'
+            );
+
+            expect(response.status).toBe(404);
+            expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+            expect(await response.json()).toEqual({
+                type: 'about:blank',
+                title: 'Not Found',
+                status: 404,
+                detail: 'User 42 does not exist',
+                instance: '/users/42',
+                requestId: 'test-request-id',
+            });
+        });
+
+        it('should map HttpError details to extension members', async () => {
+            const ctx = createMockContext(new Request('https://example.com/signup'), {
+                LOG_LEVEL: 'fatal',
+            });
+            const response = buildErrorResponse(
+                new HttpError(400, 'Validation failed', {
+                    type: 'https://example.com/problems/validation',
+                    field: 'email',
+                }),
+                ctx,
+                undefined,
+                undefined,
+                'problem'
+            );
+
+            expect(await response.json()).toEqual({
+                type: 'https://example.com/problems/validation',
+                title: 'Bad Request',
+                status: 400,
+                detail: 'Validation failed',
+                instance: '/signup',
+                field: 'email',
+                requestId: 'test-request-id',
+            });
+        });
+
+        it('should keep HttpError and CORS headers', async () => {
+            const ctx = createMockContext(new Request('https://example.com/test'), {
+                LOG_LEVEL: 'fatal',
+            });
+            const response = buildErrorResponse(
+                new HttpError(405, 'Method Not Allowed', null, { Allow: 'GET' }),
+                ctx,
+                { origins: '*' },
+                undefined,
+                'problem'
+            );
+
+            expect(response.headers.get('Allow')).toBe('GET');
+            expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+            expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+        });
+
+        it('should not expose unknown errors', async () => {
+            const ctx = createMockContext(new Request('https://example.com/test'), {
+                LOG_LEVEL: 'fatal',
+            });
+            const response = buildErrorResponse(
+                new Error('db password is hunter2'),
+                ctx,
+                undefined,
+                undefined,
+                'problem'
+            );
+
+            expect(response.status).toBe(500);
+            expect(await response.json()).toEqual({
+                type: 'about:blank',
+                title: 'Internal Server Error',
+                status: 500,
+                instance: '/test',
+                requestId: 'test-request-id',
+            });
+        });
     });
 });
 
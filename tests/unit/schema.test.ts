@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { validateRequest, validateResponse } from '../../src/schema';
+import { HttpError } from '../../src/index';
+import { createBodyReader } from '../../src/body';
+import { object, string, number, optional } from './helpers/standard-schema';
+
+function createValidationContext(request: Request, params: Record<string, string> = {}) {
+    return { request, params, ...createBodyReader(request) } as {
+        request: Request;
+        params: unknown;
+        query?: unknown;
+    } & ReturnType<typeof createBodyReader>;
+}
+
+describe('validateRequest', () => {
+    it('should replace params, set the query and cache the validated body', async () => {
+        const ctx = createValidationContext(
+            new Request('https://example.com/orgs/7/users?limit=5&tag=a&tag=b', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{"name":"Ada","admin":true}',
+            }),
+            { orgId: '7' }
+        );
+
+        await validateRequest(ctx, {
+            params: object({ orgId: number }),
+            query: object({ limit: number, tag: (value) => value as string[] }),
+            body: object({ name: string }),
+        });
+
+        expect(ctx.params).toEqual({ orgId: 7 });
+        expect(ctx.query).toEqual({ limit: 5, tag: ['a', 'b'] });
+        expect(await ctx.json()).toEqual({ name: 'Ada' });
+        expect(await ctx.body()).toEqual({ name: 'Ada' });
+    });
+
+    it('should validate form bodies as objects', async () => {
+        const ctx = createValidationContext(
+            new Request('https://example.com/signup', {
+                method: 'POST',
+                body: new URLSearchParams({ email: 'ada@example.com' }),
+            })
+        );
+
+        await validateRequest(ctx, { body: object({ email: string }) });
+
+        expect(await ctx.body()).toEqual({ email: 'ada@example.com' });
+    });
+
+    it('should throw a 400 listing the issues of every part', async () => {
+        const ctx = createValidationContext(
+            new Request('https://example.com/orgs/x?limit=many', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{}',
+            }),
+            { orgId: 'x' }
+        );
+
+        const error = await validateRequest(ctx, {
+            params: object({ orgId: number }),
+            query: object({ limit: optional(number) }),
+            body: object({ name: string }),
+        }).catch((error: unknown) => error);
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).status).toBe(400);
+        expect((error as HttpError).toResponse().status).toBe(400);
+        expect(await (error as HttpError).toResponse().json()).toEqual({
+            error: 'Validation failed',
+            issues: [
+                { location: 'params', path: ['orgId'], message: 'Expected a number' },
+                { location: 'query', path: ['limit'], message: 'Expected a number' },
+                { location: 'body', path: ['name'], message: 'Expected a string' },
+            ],
+        });
+    });
+
+    it('should not validate the body of GET requests', async () => {
+        const ctx = createValidationContext(new Request('https://example.com/users'));
+
+        await validateRequest(ctx, { body: object({ name: string }) });
+
+        expect(await ctx.body()).toBeUndefined();
+    });
+});
+
+describe('validateResponse', () => {
+    const schemas = { responses: { 200: object({ id: number }) } };
+
+    it('should return the validated data for statuses with a schema', async () => {
+        expect(await validateResponse({ id: 1, secret: 'x' }, 200, schemas)).toEqual({ id: 1 });
+        expect(await validateResponse({ secret: 'x' }, 201, schemas)).toEqual({ secret: 'x' });
+    });
+
+    it('should throw when the data does not match', async () => {
+        await expect(validateResponse({ id: 'one' }, 200, schemas)).rejects.toThrow(
+            'Response does not match the schema for status 200: id: Expected a number'
+        );
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+    builtinSerializers,
+    cborSerializer,
+    csvSerializer,
+    jsonSerializer,
+    msgpackSerializer,
+    ndjsonSerializer,
+    selectSerializer,
+    textSerializer,
+} from '../../src/serializers';
+import { HttpError } from '../../src/index';
+
+function hex(body: unknown): string {
+    return Array.from(body as Uint8Array, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('cborSerializer', () => {
+    it('should encode the RFC 8949 examples', () => {
+        const examples: [unknown, string][] = [
+            [0, '00'],
+            [23, '17'],
+            [24, '1818'],
+            [1000, '1903e8'],
+            [1000000, '1a000f4240'],
+            [1000000000000, '1b000000e8d4a51000'],
+            [18446744073709551615n, '1bffffffffffffffff'],
+            [-18446744073709551616n, '3bffffffffffffffff'],
+            [-1, '20'],
+            [-1000, '3903e7'],
+            [1.1, 'fb3ff199999999999a'],
+            [false, 'f4'],
+            [true, 'f5'],
+            [null, 'f6'],
+            ['IETF', '6449455446'],
+            [new Uint8Array([1, 2, 3, 4]), '4401020304'],
+            [[1, [2, 3], [4, 5]], '8301820203820405'],
+            [{ a: 1, b: [2, 3] }, 'a26161016162820203'],
+        ];
+
+        for (const [value, expected] of examples) {
+            expect(hex(cborSerializer(value))).toBe(expected);
+        }
+    });
+
+    it('should convert values like JSON.stringify', () => {
+        const date = new Date('2024-01-02T03:04:05.000Z');
+
+        expect(hex(cborSerializer({ at: date, skip: undefined }))).toBe(
+            hex(cborSerializer({ at: date.toISOString() }))
+        );
+        expect(hex(cborSerializer([undefined]))).toBe('81f6');
+    });
+});
+
+describe('msgpackSerializer', () => {
+    it('should encode values in their smallest formats', () => {
+        const examples: [unknown, string][] = [
+            [127, '7f'],
+            [128, 'cc80'],
+            [256, 'cd0100'],
+            [2 ** 32, 'cf0000000100000000'],
+            [-1, 'ff'],
+            [-33, 'd0df'],
+            [-129, 'd1ff7f'],
+            [1.5, 'cb3ff8000000000000'],
+            [null, 'c0'],
+            [true, 'c3'],
+            ['a', 'a161'],
+            ['x'.repeat(32), 'd920' + '78'.repeat(32)],
+            [new Uint8Array([1, 2]), 'c4020102'],
+            [[1, 2], '920102'],
+            [{ compact: true, schema: 0 }, '82a7636f6d70616374c3a6736368656d6100'],
+        ];
+
+        for (const [value, expected] of examples) {
+            expect(hex(msgpackSerializer(value))).toBe(expected);
+        }
+    });
+});
+
+describe('text serializers', () => {
+    it('should write JSON, NDJSON and plain text', () => {
+        expect(jsonSerializer({ a: 1 })).toBe('{"a":1}');
+        expect(ndjsonSerializer([{ a: 1 }, 'b'])).toBe('{"a":1}\n"b"\n');
+        expect(ndjsonSerializer({ a: 1 })).toBe('{"a":1}\n');
+        expect(textSerializer('hello')).toBe('hello');
+        expect(textSerializer({ a: 1 })).toBe('{"a":1}');
+    });
+
+    it('should write CSV with a header row for objects', () => {
+        expect(
+            csvSerializer([
+                { id: 1, name: 'Ada, Countess' },
+                { id: 2, name: 'Say "hi"', tags: ['x'] },
+            ])
+        ).toBe('id,name,tags\r\n1,"Ada, Countess",\r\n2,"Say ""hi""","[""x""]"\r\n');
+        expect(
+            csvSerializer([
+                [1, 'a'],
+                [2, null],
+            ])
+        ).toBe('1,a\r\n2,\r\n');
+        expect(csvSerializer([])).toBe('');
+    });
+});
+
+describe('selectSerializer', () => {
+    const select = (accept: string | null) =>
+        selectSerializer(accept, builtinSerializers).contentType;
+
+    it('should prefer the first serializer without an Accept header', () => {
+        expect(select(null)).toBe('application/json');
+        expect(select('*/*')).toBe('application/json');
+    });
+
+    it('should pick the serializer with the highest quality', () => {
+        expect(select('text/csv')).toBe('text/csv; charset=utf-8');
+        expect(select('application/json;q=0.5, application/cbor')).toBe('application/cbor');
+        expect(select('text/*, application/json;q=0.9')).toBe('text/plain; charset=utf-8');
+        expect(select('text/html, */*;q=0.8')).toBe('application/json');
+    });
+
+    it('should let specific ranges override wildcards', () => {
+        expect(select('*/*, application/json;q=0')).toBe('application/x-ndjson');
+        expect(select('text/*;q=0.2, text/csv;q=0.9, */*;q=0.1')).toBe('text/csv; charset=utf-8');
+    });
+
+    it('should throw 406 when no serializer is acceptable', () => {
+        let error: unknown;
+        try {
+            select('image/png, application/json;q=0');
+        } catch (thrown) {
+            error = thrown;
+        }
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).status).toBe(406);
+    });
+
+    it('should use the serializer of a Content-Type set by the handler', () => {
+        const csv = selectSerializer('application/json', builtinSerializers, 'text/csv');
+        const unknown = selectSerializer('image/png', builtinSerializers, 'application/vnd.x');
+
+        expect(csv).toEqual({ contentType: 'text/csv', serialize: csvSerializer });
+        expect(unknown).toEqual({ contentType: 'application/vnd.x', serialize: jsonSerializer });
+    });
+});
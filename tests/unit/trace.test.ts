@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createTraceContext, getRequestId, traceHeaders } from '../../src/trace';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+function request(headers: Record<string, string> = {}): Request {
+    return new Request('https://example.com/', { headers });
+}
+
+describe('createTraceContext', () => {
+    it('should continue the trace of a traceparent header with a new span', () => {
+        const trace = createTraceContext(
+            request({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`, tracestate: 'vendor=abc' })
+        );
+
+        expect(trace.traceId).toBe(TRACE_ID);
+        expect(trace.parentSpanId).toBe(PARENT_ID);
+        expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+        expect(trace.spanId).not.toBe(PARENT_ID);
+        expect(trace.flags).toBe('01');
+        expect(trace.tracestate).toBe('vendor=abc');
+        expect(trace.traceparent).toBe(`00-${TRACE_ID}-${trace.spanId}-01`);
+    });
+
+    it('should start a new sampled trace without a traceparent header', () => {
+        const trace = createTraceContext(request({ tracestate: 'vendor=abc' }));
+
+        expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+        expect(trace.parentSpanId).toBeUndefined();
+        expect(trace.tracestate).toBeUndefined();
+        expect(trace.traceparent).toBe(`00-${trace.traceId}-${trace.spanId}-01`);
+    });
+
+    it('should ignore invalid traceparent headers', () => {
+        for (const traceparent of [
+            'garbage',
+            `ff-${TRACE_ID}-${PARENT_ID}-01`,
+            `00-${'0'.repeat(32)}-${PARENT_ID}-01`,
+            `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+            `00-${TRACE_ID}-${PARENT_ID}-01-extra`,
+            `00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`,
+        ]) {
+            const trace = createTraceContext(request({ traceparent }));
+            expect(trace.parentSpanId).toBeUndefined();
+            expect(trace.traceId).not.toBe(TRACE_ID);
+        }
+    });
+
+    it('should accept extra fields from future traceparent versions', () => {
+        const trace = createTraceContext(
+            request({ traceparent: `01-${TRACE_ID}-${PARENT_ID}-00-extra` })
+        );
+
+        expect(trace.traceId).toBe(TRACE_ID);
+        expect(trace.traceparent).toBe(`00-${TRACE_ID}-${trace.spanId}-00`);
+    });
+});
+
+describe('getRequestId', () => {
+    it('should prefer X-Request-Id, then the traceparent trace ID, then cf-ray', () => {
+        const headers = {
+            'X-Request-Id': 'req-123',
+            traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+            'cf-ray': '8f1c2d3e4f5a6b7c-AMS',
+        };
+        const id = (headers: Record<string, string>) =>
+            getRequestId(request(headers), createTraceContext(request(headers)));
+
+        expect(id(headers)).toBe('req-123');
+        expect(id({ ...headers, 'X-Request-Id': '' })).toBe(TRACE_ID);
+        expect(id({ 'cf-ray': headers['cf-ray'] })).toBe('8f1c2d3e4f5a6b7c-AMS');
+    });
+
+    it('should generate a UUID when no header holds a valid ID', () => {
+        const req = request({ 'X-Request-Id': 'not valid; id' });
+
+        expect(getRequestId(req, createTraceContext(req))).toMatch(/^[0-9a-f-]{36}$/);
+    });
+});
+
+describe('traceHeaders', () => {
+    it('should build headers linking outgoing requests to the current one', () => {
+        const trace = createTraceContext(
+            request({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`, tracestate: 'vendor=abc' })
+        );
+
+        expect(traceHeaders({ requestId: 'req-123', trace })).toEqual({
+            traceparent: trace.traceparent,
+            tracestate: 'vendor=abc',
+            'X-Request-Id': 'req-123',
+        });
+        expect(
+            traceHeaders({ requestId: 'req-123', trace: createTraceContext(request()) })
+        ).not.toHaveProperty('tracestate');
+    });
+});
@@ -1,4 +1,5 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import { IRequest } from 'itty-router';
 import {
     WorkerRouter,
     RouteHandler,
@@ -10,6 +11,21 @@ import {
 import { HttpError } from '../../src/index';
 import { ResponseContext } from '../../src/response-context';
 import { Logger } from '../../src/logger';
+import { RouteParams } from '../../src/path';
+import { createTraceContext } from '../../src/trace';
+import { createBodyReader } from '../../src/body';
+import { putPartToR2 } from '../../src/multipart';
+import {
+    builtinSerializers,
+    cborSerializer,
+    csvSerializer,
+    jsonSerializer,
+    msgpackSerializer,
+    textSerializer,
+} from '../../src/serializers';
+import { RouteSchemas, ValidatedContext } from '../../src/schema';
+import { object, string, number, optional } from './helpers/standard-schema';
+import { MemoryR2Bucket } from './helpers/r2';
 
 // Helper to create a mock context for testing handlers directly
 function createMockContext<
@@ -24,6 +40,11 @@ function createMockContext<
         data: {} as D,
         response: new ResponseContext(),
         log: new Logger('test', 'fatal'),
+        url: vi.fn(),
+        requestId: 'test-request-id',
+        trace: createTraceContext(request),
+        after: vi.fn(),
+        ...createBodyReader(request),
     };
 }
 
@@ -184,7 +205,7 @@ describe('WorkerRouter', () => {
 
             expect(response.status).toBe(404);
             const body = await response.json();
-            expect(body).toEqual({ error: 'Not found' });
+            expect(body).toEqual({ error: 'Not found', requestId: expect.any(String) });
         });
     });
 });
@@ -384,13 +405,13 @@ describe('RouteHandler', () => {
 
         // First request
         const response1 = await builtRouter.fetch(request, env);
-        const body1 = await response1.json();
+        const body1 = await response1.json<{ wasDefault: boolean }>();
         expect(body1.wasDefault).toBe(true);
         expect(response1.status).toBe(201);
 
         // Second request - should have fresh context with default status
         const response2 = await builtRouter.fetch(request, env);
-        const body2 = await response2.json();
+        const body2 = await response2.json<{ wasDefault: boolean }>();
         expect(body2.wasDefault).toBe(true);
         expect(response2.status).toBe(201);
     });
@@ -728,7 +749,11 @@ describe('Middleware with next() pattern', () => {
 
         expect(response.status).toBe(401);
         const body = await response.json();
-        expect(body).toEqual({ error: 'Unauthorized', code: 'AUTH_FAILED' });
+        expect(body).toEqual({
+            error: 'Unauthorized',
+            code: 'AUTH_FAILED',
+            requestId: expect.any(String),
+        });
     });
 
     it('should execute middleware for OPTIONS requests', async () => {
@@ -801,9 +826,10 @@ describe('Middleware with next() pattern', () => {
 
         const router = new WorkerRouter<TestEnv>('test', {
             cors: {
-                origins: ({ request, data }: { request: Request; data: TestData }) => {
+                origins: ({ request, data }) => {
                     const origin = request.headers.get('Origin');
-                    return origin && data.allowedOrigins?.includes(origin) ? origin : null;
+                    const { allowedOrigins } = data as TestData;
+                    return origin && allowedOrigins?.includes(origin) ? origin : null;
                 },
                 credentials: true,
             },
@@ -874,3 +900,2382 @@ describe('Middleware with next() pattern', () => {
         expect(executionOrder).toEqual(['middleware']);
     });
 });
+
+describe('WorkerRouter.mount()', () => {
+    class ItemHandler extends RouteHandler<Env, { id: string }> {
+        async get(ctx: Context<Env, { id: string }>) {
+            return { id: ctx.params.id };
+        }
+    }
+
+    it('should re-base child routes under the prefix', async () => {
+        const child = new WorkerRouter<Env>('items').defineRouteHandler('/:id', ItemHandler);
+        const router = new WorkerRouter<Env>('test').mount('/items', child);
+        const builtRouter = router.build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/items/42'), {
+            LOG_LEVEL: 'fatal',
+        });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ id: '42' });
+
+        const unprefixed = await builtRouter.fetch(new Request('https://example.com/42'), {
+            LOG_LEVEL: 'fatal',
+        });
+        expect(unprefixed.status).toBe(404);
+    });
+
+    it('should support nested mounts', async () => {
+        const items = new WorkerRouter<Env>('items').defineRouteHandler('/:id', ItemHandler);
+        const v1 = new WorkerRouter<Env>('v1').mount('/items', items);
+        const builtRouter = new WorkerRouter<Env>('test').mount('/api/v1/', v1).build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/api/v1/items/7'),
+            { LOG_LEVEL: 'fatal' }
+        );
+        expect(await response.json()).toEqual({ id: '7' });
+    });
+
+    it('should run parent middleware before child middleware', async () => {
+        const executionOrder: string[] = [];
+
+        const child = new WorkerRouter<Env>('items')
+            .use(async (ctx, next) => {
+                executionOrder.push('child-global');
+                return next();
+            })
+            .use('/:id', async (ctx, next) => {
+                executionOrder.push('child-path');
+                return next();
+            })
+            .defineRouteHandler('/:id', ItemHandler);
+
+        const router = new WorkerRouter<Env>('test').mount('/items', child);
+        // Registered after mount() - still runs before child middleware
+        router.use(async (ctx, next) => {
+            executionOrder.push('parent-global');
+            return next();
+        });
+        const builtRouter = router.build();
+
+        await builtRouter.fetch(new Request('https://example.com/items/1'), {
+            LOG_LEVEL: 'fatal',
+        });
+
+        expect(executionOrder).toEqual(['parent-global', 'child-global', 'child-path']);
+    });
+
+    it('should not run child middleware for parent routes', async () => {
+        const childMiddleware = vi.fn(async (ctx: Context<Env>, next: () => Promise<Response>) =>
+            next()
+        );
+
+        class PingHandler extends RouteHandler<Env> {
+            async get() {
+                return { pong: true };
+            }
+        }
+
+        const child = new WorkerRouter<Env>('items')
+            .use(childMiddleware)
+            .defineRouteHandler('/:id', ItemHandler);
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/ping', PingHandler)
+            .mount('/items', child)
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/ping'), { LOG_LEVEL: 'fatal' });
+
+        expect(childMiddleware).not.toHaveBeenCalled();
+    });
+
+    it("should let the child's corsConfig override the parent's for its subtree", async () => {
+        class PingHandler extends RouteHandler<Env> {
+            async get() {
+                return { pong: true };
+            }
+        }
+
+        const child = new WorkerRouter<Env>('items', {
+            cors: { origins: 'https://items.example.com' },
+        }).defineRouteHandler('/:id', ItemHandler);
+        const builtRouter = new WorkerRouter<Env>('test', {
+            cors: { origins: 'https://parent.example.com' },
+        })
+            .defineRouteHandler('/ping', PingHandler)
+            .mount('/items', child)
+            .build();
+        const env = { LOG_LEVEL: 'fatal' };
+
+        const childResponse = await builtRouter.fetch(
+            new Request('https://example.com/items/1'),
+            env
+        );
+        expect(childResponse.headers.get('Access-Control-Allow-Origin')).toBe(
+            'https://items.example.com'
+        );
+
+        const parentResponse = await builtRouter.fetch(
+            new Request('https://example.com/ping'),
+            env
+        );
+        expect(parentResponse.headers.get('Access-Control-Allow-Origin')).toBe(
+            'https://parent.example.com'
+        );
+
+        // Catch-all preflight under the prefix also uses the child's config
+        const preflight = await builtRouter.fetch(
+            new Request('https://example.com/items/unknown/path', { method: 'OPTIONS' }),
+            env
+        );
+        expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe(
+            'https://items.example.com'
+        );
+    });
+
+    it("should inherit the parent's corsConfig when the child has none", async () => {
+        const child = new WorkerRouter<Env>('items').defineRouteHandler('/:id', ItemHandler);
+        const builtRouter = new WorkerRouter<Env>('test', { cors: { origins: '*' } })
+            .mount('/items', child)
+            .build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/items/1'), {
+            LOG_LEVEL: 'fatal',
+        });
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+
+    it('should throw when mounting a router on itself', () => {
+        const router = new WorkerRouter<Env>('test');
+        expect(() => router.mount('/self', router)).toThrow('Cannot mount a router on itself');
+    });
+});
+
+describe('WorkerRouter.group()', () => {
+    class UsersHandler extends RouteHandler<Env> {
+        async get() {
+            return { users: [] };
+        }
+    }
+
+    class PublicHandler extends RouteHandler<Env> {
+        async get() {
+            return { public: true };
+        }
+    }
+
+    it('should apply group middleware only to routes in the group', async () => {
+        const adminAuth = vi.fn(async (ctx: Context<Env>, next: () => Promise<Response>) => {
+            if (!ctx.request.headers.get('Authorization')) {
+                throw new HttpError(401, 'Unauthorized');
+            }
+            return next();
+        });
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .group('/admin', (g) => g.use(adminAuth).defineRouteHandler('/users', UsersHandler))
+            .defineRouteHandler('/public', PublicHandler)
+            .build();
+        const env = { LOG_LEVEL: 'fatal' };
+
+        const denied = await builtRouter.fetch(new Request('https://example.com/admin/users'), env);
+        expect(denied.status).toBe(401);
+
+        const allowed = await builtRouter.fetch(
+            new Request('https://example.com/admin/users', {
+                headers: { Authorization: 'Bearer token' },
+            }),
+            env
+        );
+        expect(allowed.status).toBe(200);
+        expect(await allowed.json()).toEqual({ users: [] });
+
+        adminAuth.mockClear();
+        const publicResponse = await builtRouter.fetch(
+            new Request('https://example.com/public'),
+            env
+        );
+        expect(publicResponse.status).toBe(200);
+        expect(adminAuth).not.toHaveBeenCalled();
+    });
+
+    it('should apply group CORS configuration', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .group('/admin', { cors: { origins: 'https://admin.example.com' } }, (g) =>
+                g.defineRouteHandler('/users', UsersHandler)
+            )
+            .defineRouteHandler('/public', PublicHandler)
+            .build();
+        const env = { LOG_LEVEL: 'fatal' };
+
+        const adminResponse = await builtRouter.fetch(
+            new Request('https://example.com/admin/users'),
+            env
+        );
+        expect(adminResponse.headers.get('Access-Control-Allow-Origin')).toBe(
+            'https://admin.example.com'
+        );
+
+        const publicResponse = await builtRouter.fetch(
+            new Request('https://example.com/public'),
+            env
+        );
+        expect(publicResponse.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('should map errors with the group error mapper before the router error mapper', async () => {
+        class DomainError extends Error {}
+
+        class FailingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new DomainError('Gone fishing');
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test', {
+            errorMapper: (error) => new HttpError(500, 'Router mapper'),
+        })
+            .group(
+                '/admin',
+                {
+                    errorMapper: (error) =>
+                        error instanceof DomainError
+                            ? new HttpError(409, error.message)
+                            : undefined,
+                },
+                (g) => g.defineRouteHandler('/fail', FailingHandler)
+            )
+            .defineRouteHandler('/fail', FailingHandler)
+            .build();
+        const env = { LOG_LEVEL: 'fatal' };
+
+        const groupResponse = await builtRouter.fetch(
+            new Request('https://example.com/admin/fail'),
+            env
+        );
+        expect(groupResponse.status).toBe(409);
+        expect(await groupResponse.json()).toEqual({
+            error: 'Gone fishing',
+            requestId: expect.any(String),
+        });
+
+        const rootResponse = await builtRouter.fetch(new Request('https://example.com/fail'), env);
+        expect(rootResponse.status).toBe(500);
+        expect(await rootResponse.json()).toEqual({
+            error: 'Router mapper',
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should send a Response returned by an error mapper as-is', async () => {
+        class FailingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new Error('boom');
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .group(
+                '/legacy',
+                { errorMapper: () => new Response('legacy failure', { status: 503 }) },
+                (g) => g.defineRouteHandler('/fail', FailingHandler)
+            )
+            .build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/legacy/fail'), {
+            LOG_LEVEL: 'fatal',
+        });
+        expect(response.status).toBe(503);
+        expect(await response.text()).toBe('legacy failure');
+    });
+
+    it('should throw if options are given without a callback', () => {
+        const router = new WorkerRouter<Env>('test');
+        expect(() => router.group('/admin', { cors: { origins: '*' } })).toThrow(
+            'Group callback required when options are specified'
+        );
+    });
+});
+
+describe('Method registration and 405 handling', () => {
+    class ReadOnlyHandler extends RouteHandler<Env> {
+        async get() {
+            return { read: true };
+        }
+    }
+
+    class WriteHandler extends RouteHandler<Env> {
+        async post() {
+            return { written: true };
+        }
+    }
+
+    const env = { LOG_LEVEL: 'fatal' };
+
+    it('should return 405 with an Allow header for unimplemented methods', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ReadOnlyHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'DELETE' }),
+            env
+        );
+
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+        expect(await response.json()).toEqual({
+            error: 'Method Not Allowed',
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should let a second handler on the same path serve other methods', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ReadOnlyHandler)
+            .defineRouteHandler('/items', WriteHandler)
+            .build();
+
+        const getResponse = await builtRouter.fetch(new Request('https://example.com/items'), env);
+        expect(await getResponse.json()).toEqual({ read: true });
+
+        const postResponse = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'POST' }),
+            env
+        );
+        expect(await postResponse.json()).toEqual({ written: true });
+
+        const putResponse = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'PUT' }),
+            env
+        );
+        expect(putResponse.status).toBe(405);
+        expect(putResponse.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+    });
+
+    it('should let a later handler on an overlapping path serve other methods', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items/:id', ReadOnlyHandler)
+            .defineRouteHandler('/items/import', WriteHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items/import', { method: 'POST' }),
+            env
+        );
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ written: true });
+    });
+
+    it('should answer OPTIONS with the allowed methods', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ReadOnlyHandler)
+            .defineRouteHandler('/items', WriteHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'OPTIONS' }),
+            env
+        );
+
+        expect(response.status).toBe(204);
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+        expect(response.headers.get('Access-Control-Allow-Methods')).toBe(
+            'GET, HEAD, POST, OPTIONS'
+        );
+    });
+
+    it('should keep Access-Control-Allow-Methods from the CORS config on OPTIONS', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            cors: { origins: '*', methods: 'GET, POST' },
+        })
+            .defineRouteHandler('/items', ReadOnlyHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'OPTIONS' }),
+            env
+        );
+
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+        expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST');
+    });
+
+    it('should still return 404 for paths without routes', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ReadOnlyHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/other', { method: 'DELETE' }),
+            env
+        );
+        expect(response.status).toBe(404);
+        expect(response.headers.get('Allow')).toBeNull();
+    });
+});
+
+describe('Route matching', () => {
+    class KindHandler extends RouteHandler<Env, { kind: string }> {
+        async get(ctx: Context<Env, { kind: string }>) {
+            return { kind: ctx.params.kind };
+        }
+    }
+
+    class ListHandler extends RouteHandler<Env> {
+        async get() {
+            return { list: true };
+        }
+        async post() {
+            return { created: true };
+        }
+    }
+
+    const env = { LOG_LEVEL: 'fatal' };
+
+    it('should match routes in registration order across literal and param segments', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/:kind/list', KindHandler)
+            .defineRouteHandler('/items/list', ListHandler)
+            .build();
+
+        const getResponse = await builtRouter.fetch(
+            new Request('https://example.com/items/list'),
+            env
+        );
+        expect(await getResponse.json()).toEqual({ kind: 'items' });
+
+        const postResponse = await builtRouter.fetch(
+            new Request('https://example.com/items/list', { method: 'POST' }),
+            env
+        );
+        expect(await postResponse.json()).toEqual({ created: true });
+    });
+
+    it('should match literal segments exactly, with or without a trailing slash', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', undefined, { base: '/api' })
+            .defineRouteHandler('/reports/summary.csv', ListHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/api/reports/summary.csv/'),
+            env
+        );
+        expect(await response.json()).toEqual({ list: true });
+
+        const mismatch = await builtRouter.fetch(
+            new Request('https://example.com/api/reports/summaryXcsv'),
+            env
+        );
+        expect(mismatch.status).toBe(404);
+    });
+
+    it("should run itty-router's before handlers", async () => {
+        const builtRouter = new WorkerRouter<Env>('test', undefined, {
+            before: [
+                (request) =>
+                    (request as Request).url.endsWith('/blocked')
+                        ? new Response(null, { status: 403 })
+                        : undefined,
+            ],
+        })
+            .defineRouteHandler('/:kind/list', KindHandler)
+            .build();
+
+        const blocked = await builtRouter.fetch(new Request('https://example.com/blocked'), env);
+        expect(blocked.status).toBe(403);
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/users/list?page=2'),
+            env
+        );
+        expect(await response.json()).toEqual({ kind: 'users' });
+    });
+});
+
+describe('HEAD requests', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    it('should run get() and strip the body while keeping headers', async () => {
+        const executionOrder: string[] = [];
+
+        class ResourceHandler extends RouteHandler<Env> {
+            async get(ctx: Context<Env>) {
+                executionOrder.push('get');
+                ctx.response.headers.set('ETag', '"v1"');
+                return { name: 'resource' };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test', { cors: { origins: '*' } })
+            .use(async (ctx, next) => {
+                executionOrder.push('middleware');
+                return next();
+            })
+            .defineRouteHandler('/resource', ResourceHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/resource', { method: 'HEAD' }),
+            env
+        );
+
+        expect(response.status).toBe(200);
+        expect(executionOrder).toEqual(['middleware', 'get']);
+        expect(response.headers.get('ETag')).toBe('"v1"');
+        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(response.headers.get('Content-Length')).toBe(
+            String(JSON.stringify({ name: 'resource' }).length)
+        );
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+        expect(await response.text()).toBe('');
+    });
+
+    it('should run GET middleware for HEAD requests', async () => {
+        const get = vi.fn(async () => ({ secret: true }));
+        const router = new WorkerRouter<Env>('test').get('/resource', async () => {
+            throw new HttpError(401, 'Unauthorized');
+        });
+        router.route('/resource').get(get);
+        const builtRouter = router.build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/resource', { method: 'HEAD' }),
+            env
+        );
+
+        expect(response.status).toBe(401);
+        expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should use an explicit head() override', async () => {
+        class ResourceHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new Error('get() should not run');
+            }
+
+            async head() {
+                return new Response(null, { headers: { 'Content-Length': '1024' } });
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/resource', ResourceHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/resource', { method: 'HEAD' }),
+            env
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Length')).toBe('1024');
+    });
+
+    it('should return 405 for HEAD when the handler has no get()', async () => {
+        class WriteHandler extends RouteHandler<Env> {
+            async post() {
+                return { written: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/resource', WriteHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/resource', { method: 'HEAD' }),
+            env
+        );
+
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+        expect(await response.text()).toBe('');
+    });
+
+    it('should strip the body of error responses', async () => {
+        class MissingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new HttpError(404, 'Resource not found');
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/resource', MissingHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/resource', { method: 'HEAD' }),
+            env
+        );
+
+        expect(response.status).toBe(404);
+        expect(await response.text()).toBe('');
+    });
+});
+
+describe('Extension HTTP methods', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class SearchHandler extends RouteHandler<Env> {
+        static methods = { QUERY: 'query' };
+
+        async get() {
+            return { results: [] };
+        }
+
+        async query(ctx: Context<Env>) {
+            const body = await ctx.request.json<{ term: string }>();
+            return { results: [body.term] };
+        }
+    }
+
+    it('should dispatch extension methods through middleware', async () => {
+        const seen: string[] = [];
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use(async (ctx, next) => {
+                seen.push(ctx.request.method);
+                return next();
+            })
+            .defineRouteHandler('/search', SearchHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/search', {
+                method: 'QUERY',
+                body: JSON.stringify({ term: 'cats' }),
+            }),
+            env
+        );
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ results: ['cats'] });
+        expect(seen).toEqual(['QUERY']);
+    });
+
+    it('should list extension methods in Allow and CORS preflight headers', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', { cors: { origins: '*' } })
+            .defineRouteHandler('/search', SearchHandler)
+            .build();
+
+        const preflight = await builtRouter.fetch(
+            new Request('https://example.com/search', { method: 'OPTIONS' }),
+            env
+        );
+        expect(preflight.headers.get('Access-Control-Allow-Methods')).toBe(
+            'GET, HEAD, QUERY, OPTIONS'
+        );
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/search', { method: 'PUT' }),
+            env
+        );
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, QUERY, OPTIONS');
+    });
+
+    it('should return 405 for extension methods the handler does not declare', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/search', SearchHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/search', { method: 'PROPFIND' }),
+            env
+        );
+
+        expect(response.status).toBe(405);
+    });
+
+    it('should reject invalid extension method declarations at build time', () => {
+        class StandardMethodHandler extends RouteHandler<Env> {
+            static methods = { GET: 'fetchAll' };
+
+            async fetchAll() {
+                return [];
+            }
+        }
+
+        class MissingMethodHandler extends RouteHandler<Env> {
+            static methods = { QUERY: 'query' };
+        }
+
+        expect(() =>
+            new WorkerRouter<Env>('test').defineRouteHandler('/a', StandardMethodHandler).build()
+        ).toThrow('Cannot declare standard method GET in static methods');
+        expect(() =>
+            new WorkerRouter<Env>('test').defineRouteHandler('/a', MissingMethodHandler).build()
+        ).toThrow("Handler method 'query' for QUERY is not a function");
+    });
+});
+
+describe('WorkerRouter.routes()', () => {
+    class UserHandler extends RouteHandler<Env, { id: string }> {
+        async get() {
+            return {};
+        }
+
+        async put() {
+            return {};
+        }
+    }
+
+    class AdminHandler extends RouteHandler<Env> {
+        cors() {
+            return { origins: 'https://admin.example.com' };
+        }
+
+        async post() {
+            return {};
+        }
+    }
+
+    it('should describe routes of the router and its mounted routers', () => {
+        async function logging(ctx: Context<Env>, next: () => Promise<Response>) {
+            return next();
+        }
+        async function adminAuth(ctx: Context<Env>, next: () => Promise<Response>) {
+            return next();
+        }
+
+        const router = new WorkerRouter<Env>('test', { cors: { origins: '*' } })
+            .use(logging)
+            .use('/users/*', async (ctx, next) => next())
+            .defineRouteHandler('/users/:id', UserHandler)
+            .group('/admin', (group) =>
+                group.use(adminAuth).defineRouteHandler('/tasks', AdminHandler)
+            );
+
+        expect(router.routes()).toEqual([
+            {
+                path: '/users/:id',
+                methods: ['GET', 'HEAD', 'PUT'],
+                handler: 'UserHandler',
+                middleware: [
+                    { path: null, method: null, name: 'logging' },
+                    { path: '/users/*', method: null, name: 'anonymous' },
+                ],
+                cors: { origins: '*' },
+                handlerCors: false,
+            },
+            {
+                path: '/admin/tasks',
+                methods: ['POST'],
+                handler: 'AdminHandler',
+                middleware: [
+                    { path: null, method: null, name: 'logging' },
+                    { path: null, method: null, name: 'adminAuth' },
+                ],
+                cors: { origins: '*' },
+                handlerCors: true,
+            },
+        ]);
+    });
+
+    it('should not register routes or require build()', async () => {
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/users/:id', UserHandler);
+
+        expect(router.routes()).toHaveLength(1);
+        expect(router.router.routes).toHaveLength(0);
+    });
+});
+
+describe('Route conflict detection', () => {
+    class UserHandler extends RouteHandler<Env, { id: string }> {
+        async get() {
+            return { user: 'by-id' };
+        }
+    }
+
+    class MeHandler extends RouteHandler<Env> {
+        async get() {
+            return { user: 'me' };
+        }
+
+        async post() {
+            return { updated: true };
+        }
+    }
+
+    it('should throw for shadowed routes in strict mode', () => {
+        const router = new WorkerRouter<Env>('test', { strict: true })
+            .defineRouteHandler('/users/:id', UserHandler)
+            .defineRouteHandler('/users/me', MeHandler);
+
+        expect(() => router.build()).toThrow(
+            'GET, HEAD /users/me is shadowed by earlier route /users/:id'
+        );
+    });
+
+    it('should throw for duplicate routes across mounted routers in strict mode', () => {
+        const users = new WorkerRouter<Env>('users').defineRouteHandler('/:userId', MeHandler);
+        const router = new WorkerRouter<Env>('test', { strict: true })
+            .defineRouteHandler('/users/:id', UserHandler)
+            .mount('/users', users);
+
+        expect(() => router.build()).toThrow(
+            'GET, HEAD /users/:userId duplicates earlier route /users/:id'
+        );
+    });
+
+    it('should allow specific routes defined before parameterized ones', () => {
+        const router = new WorkerRouter<Env>('test', { strict: true })
+            .defineRouteHandler('/users/me', MeHandler)
+            .defineRouteHandler('/users/:id', UserHandler);
+
+        expect(() => router.build()).not.toThrow();
+    });
+
+    it('should log a warning on the first request outside strict mode', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/users/:id', UserHandler)
+            .defineRouteHandler('/users/me', MeHandler)
+            .build();
+
+        const env = { LOG_LEVEL: 'warn' };
+        const response = await builtRouter.fetch(new Request('https://example.com/users/me'), env);
+        await builtRouter.fetch(new Request('https://example.com/users/me'), env);
+
+        // POST is not shadowed, only GET and HEAD
+        expect(await response.json()).toEqual({ user: 'by-id' });
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain(
+            'GET, HEAD /users/me is shadowed by earlier route /users/:id'
+        );
+        warn.mockRestore();
+    });
+
+    it('should warn at build when the logger already shows warnings', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const router = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/users/:id', UserHandler)
+            .defineRouteHandler('/users/me', MeHandler);
+        router.log.setLevel('warn');
+
+        const builtRouter = router.build();
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        await builtRouter.fetch(new Request('https://example.com/users/me'), {
+            LOG_LEVEL: 'warn',
+        });
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
+
+describe('Named routes', () => {
+    class UserHandler extends RouteHandler<Env, { id: string }> {
+        async post(ctx: Context<Env, { id: string }>) {
+            ctx.response.status = 201;
+            ctx.response.headers.set(
+                'Location',
+                ctx.url('user-post', { id: ctx.params.id, postId: 1 })
+            );
+            return {};
+        }
+    }
+
+    class PostHandler extends RouteHandler<Env, { id: string; postId: string }> {
+        async get() {
+            return {};
+        }
+    }
+
+    const createRouter = () => {
+        const users = new WorkerRouter<Env>('users')
+            .defineRouteHandler('/:id', UserHandler, { name: 'user' })
+            .defineRouteHandler('/:id/posts/:postId', PostHandler, { name: 'user-post' });
+        return new WorkerRouter<Env>('test').mount('/users', users);
+    };
+
+    it('should build URLs for named routes including mount prefixes', () => {
+        const router = createRouter();
+
+        expect(router.url('user', { id: 'jane doe' })).toBe('/users/jane%20doe');
+        expect(router.url('user-post', { id: 1, postId: 2 }, { expand: 'author' })).toBe(
+            '/users/1/posts/2?expand=author'
+        );
+    });
+
+    it('should expose named routes to handlers via ctx.url()', async () => {
+        const builtRouter = createRouter().build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/users/42', { method: 'POST' }),
+            { LOG_LEVEL: 'fatal' }
+        );
+
+        expect(response.status).toBe(201);
+        expect(response.headers.get('Location')).toBe('/users/42/posts/1');
+    });
+
+    it('should include the router base in named route URLs', async () => {
+        const users = new WorkerRouter<Env>('users')
+            .defineRouteHandler('/:id', UserHandler, { name: 'user' })
+            .defineRouteHandler('/:id/posts/:postId', PostHandler, { name: 'user-post' });
+        const router = new WorkerRouter<Env>('test', undefined, { base: '/api' });
+        router.mount('/users', users);
+
+        expect(router.url('user', { id: 1 })).toBe('/api/users/1');
+
+        const response = await router
+            .build()
+            .fetch(new Request('https://example.com/api/users/42', { method: 'POST' }), {
+                LOG_LEVEL: 'fatal',
+            });
+        expect(response.headers.get('Location')).toBe('/api/users/42/posts/1');
+    });
+
+    it('should throw for unknown names and missing params', () => {
+        const router = createRouter();
+
+        expect(() => router.url('missing')).toThrow("Unknown route name 'missing'");
+        expect(() => router.url('user')).toThrow("Missing param 'id' for path '/users/:id'");
+    });
+
+    it('should reject duplicate route names at build time', () => {
+        const router = createRouter().defineRouteHandler('/people/:id', UserHandler, {
+            name: 'user',
+        });
+
+        expect(() => router.build()).toThrow(
+            "Duplicate route name 'user' for '/users/:id' and '/people/:id'"
+        );
+    });
+});
+
+describe('Param constraints', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class ItemHandler extends RouteHandler<Env, RouteParams<'/items/:id<int>'>> {
+        async get(ctx: Context<Env, RouteParams<'/items/:id<int>'>>) {
+            expectTypeOf(ctx.params.id).toEqualTypeOf<number>();
+            return { id: ctx.params.id, type: typeof ctx.params.id };
+        }
+    }
+
+    class ItemSlugHandler extends RouteHandler<Env, { slug: string }> {
+        async get(ctx: Context<Env, { slug: string }>) {
+            return { slug: ctx.params.slug };
+        }
+    }
+
+    it('should coerce typed params and fall through to later routes', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', { strict: true })
+            .defineRouteHandler('/items/:id<int>', ItemHandler)
+            .defineRouteHandler('/items/:slug<slug>', ItemSlugHandler)
+            .build();
+
+        const numeric = await builtRouter.fetch(new Request('https://example.com/items/42'), env);
+        expect(await numeric.json()).toEqual({ id: 42, type: 'number' });
+
+        const slug = await builtRouter.fetch(
+            new Request('https://example.com/items/blue-widget'),
+            env
+        );
+        expect(await slug.json()).toEqual({ slug: 'blue-widget' });
+    });
+
+    it('should return 404 when no constrained route matches', async () => {
+        class NumericHandler extends RouteHandler<Env> {
+            async get() {
+                return {};
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items/:id(\\d+)', NumericHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items/abc', { method: 'DELETE' }),
+            env
+        );
+        expect(response.status).toBe(404);
+    });
+
+    it('should apply constraints to middleware paths', async () => {
+        const seen: string[] = [];
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use('/orgs/:orgId<int>/*', async (ctx, next) => {
+                seen.push(new URL(ctx.request.url).pathname);
+                return next();
+            })
+            .defineRouteHandler('/orgs/:orgId/items/:id<int>', ItemHandler)
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/orgs/7/items/1'), env);
+        await builtRouter.fetch(new Request('https://example.com/orgs/acme/items/1'), env);
+
+        expect(seen).toEqual(['/orgs/7/items/1']);
+    });
+});
+
+describe('Middleware path params', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class ProjectsHandler extends RouteHandler<Env> {
+        async get(ctx: Context<Env>) {
+            return { params: ctx.params };
+        }
+    }
+
+    it('should expose params captured by middleware paths', async () => {
+        const seen: unknown[] = [];
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use('/orgs/:orgId<int>/*', async (ctx, next) => {
+                seen.push(ctx.params.orgId);
+                return next();
+            })
+            .defineRouteHandler('/orgs/*', ProjectsHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/orgs/7/projects'),
+            env
+        );
+
+        expect(seen).toEqual([7]);
+        expect(await response.json()).toEqual({ params: { orgId: 7 } });
+    });
+
+    it('should not override route params', async () => {
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use('/items/:id/*', async (ctx, next) => next())
+            .defineRouteHandler('/items/:itemId/:id', ProjectsHandler)
+            .build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/items/1/2'), env);
+
+        expect(await response.json()).toEqual({ params: { id: '2', itemId: '1' } });
+    });
+
+    it('should expose middleware params on unmatched paths', async () => {
+        const seen: unknown[] = [];
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use('/orgs/:orgId/*', async (ctx, next) => {
+                seen.push(ctx.params.orgId);
+                return next();
+            })
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/orgs/acme/missing'),
+            env
+        );
+
+        expect(response.status).toBe(404);
+        expect(seen).toEqual(['acme']);
+    });
+});
+
+describe('Per-route middleware', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    const record =
+        (calls: string[], name: string): Middleware<Env> =>
+        async (ctx, next) => {
+            calls.push(name);
+            return next();
+        };
+
+    it('should run route middleware after router middleware', async () => {
+        const calls: string[] = [];
+
+        class ItemHandler extends RouteHandler<Env> {
+            async get() {
+                calls.push('handler');
+                return { ok: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .use(record(calls, 'global'))
+            .defineRouteHandler('/items', ItemHandler, {
+                middleware: [record(calls, 'auth'), record(calls, 'audit')],
+            })
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/items'), env);
+
+        expect(calls).toEqual(['global', 'auth', 'audit', 'handler']);
+    });
+
+    it('should not run route middleware for other routes', async () => {
+        const calls: string[] = [];
+
+        class ItemHandler extends RouteHandler<Env> {
+            async get() {
+                return { ok: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ItemHandler, { middleware: [record(calls, 'auth')] })
+            .defineRouteHandler('/public', ItemHandler)
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/public'), env);
+
+        expect(calls).toEqual([]);
+    });
+
+    it('should run method-keyed middleware only for that method', async () => {
+        const calls: string[] = [];
+
+        class ItemHandler extends RouteHandler<Env> {
+            async get() {
+                return { ok: true };
+            }
+            async post() {
+                return { created: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ItemHandler, {
+                middleware: { POST: [record(calls, 'auth')] },
+            })
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/items'), env);
+        expect(calls).toEqual([]);
+
+        await builtRouter.fetch(new Request('https://example.com/items', { method: 'POST' }), env);
+        expect(calls).toEqual(['auth']);
+    });
+
+    it('should run the handler class middleware after the route options middleware', async () => {
+        const calls: string[] = [];
+
+        class ItemHandler extends RouteHandler<Env> {
+            static middleware = [record(calls, 'class')];
+
+            async get() {
+                calls.push('handler');
+                return { ok: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ItemHandler, { middleware: [record(calls, 'route')] })
+            .build();
+
+        await builtRouter.fetch(new Request('https://example.com/items'), env);
+
+        expect(calls).toEqual(['route', 'class', 'handler']);
+    });
+
+    it('should let route middleware short-circuit the handler', async () => {
+        class ItemHandler extends RouteHandler<Env> {
+            static middleware = {
+                DELETE: [
+                    async () => {
+                        throw new HttpError(403, 'Forbidden');
+                    },
+                ],
+            };
+
+            async delete() {
+                return { deleted: true };
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items/:id', ItemHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items/1', { method: 'DELETE' }),
+            env
+        );
+
+        expect(response.status).toBe(403);
+    });
+
+    it('should guard HEAD requests with GET-keyed middleware', async () => {
+        const requireAuth = async () => {
+            throw new HttpError(401, 'Unauthorized');
+        };
+        const get = vi.fn(async (ctx: Context<Env>) => {
+            ctx.response.headers.set('X-Secret-Count', '42');
+            return { secret: true };
+        });
+
+        class SecretHandler extends RouteHandler<Env> {
+            static middleware = { GET: [requireAuth] };
+
+            async get(ctx: Context<Env>) {
+                return get(ctx);
+            }
+        }
+
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/secret', SecretHandler);
+        router.route('/routed', { middleware: { GET: [requireAuth] } }).get(get);
+        const builtRouter = router.build();
+
+        for (const path of ['/secret', '/routed']) {
+            const response = await builtRouter.fetch(
+                new Request(`https://example.com${path}`, { method: 'HEAD' }),
+                env
+            );
+
+            expect(response.status).toBe(401);
+            expect(response.headers.get('X-Secret-Count')).toBeNull();
+        }
+        expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid method names at build', () => {
+        class ItemHandler extends RouteHandler<Env> {
+            async get() {
+                return { ok: true };
+            }
+        }
+
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/items', ItemHandler, {
+            middleware: { 'NOT A METHOD': [async (ctx, next) => next()] },
+        });
+
+        expect(() => router.build()).toThrow("Invalid HTTP method name 'NOT A METHOD'");
+    });
+
+    it('should list route middleware in routes()', () => {
+        function auth(ctx: Context<Env>, next: () => Promise<Response>) {
+            return next();
+        }
+        function audit(ctx: Context<Env>, next: () => Promise<Response>) {
+            return next();
+        }
+
+        class ItemHandler extends RouteHandler<Env> {
+            static middleware = { post: [audit] };
+
+            async get() {
+                return { ok: true };
+            }
+        }
+
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/items', ItemHandler, {
+            middleware: [auth],
+        });
+
+        expect(router.routes()[0].middleware).toEqual([
+            { path: '/items', method: null, name: 'auth' },
+            { path: '/items', method: 'POST', name: 'audit' },
+        ]);
+    });
+});
+
+describe('WorkerRouter.route()', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    it('should serve data returned by handler functions', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router
+            .route('/ping')
+            .get(async () => ({ pong: true }))
+            .post(async (ctx) => ({ echo: await ctx.request.json() }));
+        const builtRouter = router.build();
+
+        const getResponse = await builtRouter.fetch(new Request('https://example.com/ping'), env);
+        expect(getResponse.status).toBe(200);
+        expect(await getResponse.json()).toEqual({ pong: true });
+
+        const postResponse = await builtRouter.fetch(
+            new Request('https://example.com/ping', { method: 'POST', body: '{"a":1}' }),
+            env
+        );
+        expect(await postResponse.json()).toEqual({ echo: { a: 1 } });
+    });
+
+    it('should type params from the path', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router.route('/items/:id<int>').get((ctx) => {
+            expectTypeOf(ctx.params.id).toEqualTypeOf<number>();
+            return { id: ctx.params.id };
+        });
+        const builtRouter = router.build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/items/42'), env);
+
+        expect(await response.json()).toEqual({ id: 42 });
+    });
+
+    it('should only register the defined methods', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router.route('/ping').get(async () => ({ pong: true }));
+        const builtRouter = router.build();
+
+        const headResponse = await builtRouter.fetch(
+            new Request('https://example.com/ping', { method: 'HEAD' }),
+            env
+        );
+        expect(headResponse.status).toBe(200);
+
+        const deleteResponse = await builtRouter.fetch(
+            new Request('https://example.com/ping', { method: 'DELETE' }),
+            env
+        );
+        expect(deleteResponse.status).toBe(405);
+        expect(deleteResponse.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    });
+
+    it('should run router and route middleware', async () => {
+        const calls: string[] = [];
+        const router = new WorkerRouter<Env>('test').use(async (ctx, next) => {
+            calls.push('global');
+            return next();
+        });
+        router
+            .route('/ping', {
+                name: 'ping',
+                middleware: [
+                    async (ctx, next) => {
+                        calls.push('route');
+                        return next();
+                    },
+                ],
+            })
+            .get(async () => ({ pong: true }));
+        const builtRouter = router.build();
+
+        await builtRouter.fetch(new Request('https://example.com/ping'), env);
+
+        expect(calls).toEqual(['global', 'route']);
+        expect(router.url('ping')).toBe('/ping');
+    });
+
+    it('should reject defining a method twice', () => {
+        const route = new WorkerRouter<Env>('test').route('/ping').get(async () => ({}));
+
+        expect(() => route.get(async () => ({}))).toThrow(
+            "Method GET is already defined for route '/ping'"
+        );
+    });
+});
+
+describe('Not found and method not allowed handlers', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class ItemHandler extends RouteHandler<Env> {
+        async get() {
+            return { ok: true };
+        }
+    }
+
+    it('should use the notFound handler for unmatched paths', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            notFound: (ctx) =>
+                new Response(`<h1>${ctx.data.site}: ${new URL(ctx.request.url).pathname}</h1>`, {
+                    status: 404,
+                    headers: { 'Content-Type': 'text/html' },
+                }),
+        })
+            .use(async (ctx, next) => {
+                ctx.data.site = 'Example';
+                return next();
+            })
+            .build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/missing'), env);
+
+        expect(response.status).toBe(404);
+        expect(response.headers.get('Content-Type')).toBe('text/html');
+        expect(await response.text()).toBe('<h1>Example: /missing</h1>');
+    });
+
+    it('should map errors thrown by the notFound handler', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            notFound: () => {
+                throw new HttpError(410, 'Gone');
+            },
+        }).build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/missing'), env);
+
+        expect(response.status).toBe(410);
+    });
+
+    it('should use the methodNotAllowed handler with the allowed methods', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            methodNotAllowed: (ctx, allowedMethods) =>
+                Response.json(
+                    { method: ctx.request.method, allowed: allowedMethods },
+                    { status: 405, headers: { Allow: allowedMethods.join(', ') } }
+                ),
+        })
+            .defineRouteHandler('/items', ItemHandler)
+            .build();
+
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/items', { method: 'POST' }),
+            env
+        );
+
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+        expect(await response.json()).toEqual({
+            method: 'POST',
+            allowed: ['GET', 'HEAD', 'OPTIONS'],
+        });
+    });
+
+    it('should prefer the handlers of a group for paths under its prefix', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            notFound: () => new Response('root', { status: 404 }),
+        })
+            .group(
+                '/api',
+                { notFound: () => Response.json({ error: 'api' }, { status: 404 }) },
+                (g) => g.defineRouteHandler('/items', ItemHandler)
+            )
+            .build();
+
+        const apiResponse = await builtRouter.fetch(new Request('https://example.com/api/x'), env);
+        const rootResponse = await builtRouter.fetch(new Request('https://example.com/x'), env);
+
+        expect(await apiResponse.json()).toEqual({ error: 'api' });
+        expect(await rootResponse.text()).toBe('root');
+    });
+
+    it('should match group prefixes literally', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', {
+            notFound: () => new Response('root', { status: 404 }),
+        })
+            .group('/v1.0', { notFound: () => new Response('v1.0', { status: 404 }) }, (g) =>
+                g.defineRouteHandler('/items', ItemHandler)
+            )
+            .build();
+
+        const versioned = await builtRouter.fetch(new Request('https://example.com/v1.0/x'), env);
+        const lookalike = await builtRouter.fetch(new Request('https://example.com/v1x0/x'), env);
+
+        expect(await versioned.text()).toBe('v1.0');
+        expect(await lookalike.text()).toBe('root');
+    });
+});
+
+describe('Error hooks', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class NotFoundError extends Error {}
+    class UserNotFoundError extends NotFoundError {}
+    class ValidationError extends Error {
+        constructor(readonly field: string) {
+            super(`Invalid ${field}`);
+        }
+    }
+
+    function routerThrowing(error: unknown) {
+        class FailingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw error;
+            }
+        }
+        return new WorkerRouter<Env>('test').defineRouteHandler('/fail', FailingHandler);
+    }
+
+    const fetchFail = (router: WorkerRouter<Env>) =>
+        router.build().fetch(new Request('https://example.com/fail'), env);
+
+    it('should use the response returned by onError()', async () => {
+        const router = routerThrowing(new Error('boom')).onError(
+            (error, ctx) =>
+                new Response(`${ctx.request.method}: ${(error as Error).message}`, { status: 503 })
+        );
+
+        const response = await fetchFail(router);
+
+        expect(response.status).toBe(503);
+        expect(await response.text()).toBe('GET: boom');
+    });
+
+    it('should try hooks in registration order', async () => {
+        const calls: string[] = [];
+        const router = routerThrowing(new Error('boom'))
+            .onError(() => {
+                calls.push('first');
+                return undefined;
+            })
+            .onError(() => {
+                calls.push('second');
+                return new HttpError(502, 'Bad Gateway');
+            });
+
+        const response = await fetchFail(router);
+
+        expect(calls).toEqual(['first', 'second']);
+        expect(response.status).toBe(502);
+    });
+
+    it('should map registered error classes and their subclasses to statuses', async () => {
+        const router = routerThrowing(new UserNotFoundError('No such user')).mapError(
+            NotFoundError,
+            404
+        );
+
+        const response = await fetchFail(router);
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({
+            error: 'No such user',
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should map error classes with a function', async () => {
+        const router = routerThrowing(new ValidationError('email'))
+            .mapError(NotFoundError, 404)
+            .mapError(
+                ValidationError,
+                (error) => new HttpError(400, error.message, { field: error.field })
+            );
+
+        const response = await fetchFail(router);
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: 'Invalid email',
+            field: 'email',
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should run the hooks of a group before the parent hooks', async () => {
+        class FailingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw new NotFoundError('missing');
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .mapError(NotFoundError, 404)
+            .group('/v2', (g) =>
+                g.mapError(NotFoundError, 410).defineRouteHandler('/fail', FailingHandler)
+            )
+            .defineRouteHandler('/fail', FailingHandler)
+            .build();
+
+        const v2 = await builtRouter.fetch(new Request('https://example.com/v2/fail'), env);
+        const root = await builtRouter.fetch(new Request('https://example.com/fail'), env);
+
+        expect(v2.status).toBe(410);
+        expect(root.status).toBe(404);
+    });
+
+    it('should return 500 for unmapped errors', async () => {
+        const router = routerThrowing(new Error('boom')).mapError(NotFoundError, 404);
+
+        const response = await fetchFail(router);
+
+        expect(response.status).toBe(500);
+    });
+});
+
+describe('Problem Details error format', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class ItemHandler extends RouteHandler<Env> {
+        async get(): Promise<any> {
+            throw new HttpError(409, 'Item is locked', { lockedBy: 'alice' });
+        }
+    }
+
+    it('should format handler errors as Problem Details', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', { errorFormat: 'problem' })
+            .defineRouteHandler('/items/:id', ItemHandler)
+            .build();
+
+        const response = await builtRouter.fetch(new Request('https://example.com/items/1'), env);
+
+        expect(response.status).toBe(409);
+        expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+        expect(await response.json()).toEqual({
+            type: 'about:blank',
+            title: 'Conflict',
+            status: 409,
+            detail: 'Item is locked',
+            instance: '/items/1',
+            lockedBy: 'alice',
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should format the built-in 404 and 405 as Problem Details', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', { errorFormat: 'problem' })
+            .defineRouteHandler('/items/:id', ItemHandler)
+            .build();
+
+        const notFound = await builtRouter.fetch(new Request('https://example.com/missing'), env);
+        const notAllowed = await builtRouter.fetch(
+            new Request('https://example.com/items/1', { method: 'POST' }),
+            env
+        );
+
+        expect(notFound.status).toBe(404);
+        expect(notFound.headers.get('Content-Type')).toBe('application/problem+json');
+        expect(await notFound.json()).toEqual({
+            type: 'about:blank',
+            title: 'Not Found',
+            status: 404,
+            instance: '/missing',
+            requestId: expect.any(String),
+        });
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+        expect((await notAllowed.json<{ title: string }>()).title).toBe('Method Not Allowed');
+    });
+
+    it('should inherit the format in groups unless they set their own', async () => {
+        const builtRouter = new WorkerRouter<Env>('test', { errorFormat: 'problem' })
+            .group('/api', (g) => g.defineRouteHandler('/items/:id', ItemHandler))
+            .group('/legacy', { errorFormat: 'json' }, (g) =>
+                g.defineRouteHandler('/items/:id', ItemHandler)
+            )
+            .build();
+
+        const api = await builtRouter.fetch(new Request('https://example.com/api/items/1'), env);
+        const legacy = await builtRouter.fetch(
+            new Request('https://example.com/legacy/items/1'),
+            env
+        );
+
+        expect(api.headers.get('Content-Type')).toBe('application/problem+json');
+        expect(await legacy.json()).toEqual({
+            error: 'Item is locked',
+            lockedBy: 'alice',
+            requestId: expect.any(String),
+        });
+    });
+});
+
+describe('Debug error responses', () => {
+    it('should include error details in 500 responses when LOG_LEVEL is debug', async () => {
+        class FailingHandler extends RouteHandler<Env> {
+            async get(): Promise<any> {
+                throw Object.assign(new Error('Render failed'), {
+                    cause: new Error('Template missing'),
+                });
+            }
+        }
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/fail', FailingHandler)
+            .build();
+        vi.spyOn(console, 'debug').mockImplementation(() => {});
+        vi.spyOn(console, 'info').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const debug = await builtRouter.fetch(new Request('https://example.com/fail'), {
+            LOG_LEVEL: 'debug',
+        });
+        const production = await builtRouter.fetch(new Request('https://example.com/fail'), {
+            LOG_LEVEL: 'error',
+        });
+        vi.restoreAllMocks();
+
+        expect((await debug.json<{ debug: object }>()).debug).toMatchObject({
+            message: 'Render failed',
+            cause: { message: 'Template missing' },
+        });
+        expect(await production.json()).toEqual({
+            error: 'Internal Server Error',
+            requestId: expect.any(String),
+        });
+    });
+});
+
+describe('Request IDs and trace context', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class EchoHandler extends RouteHandler<Env> {
+        async get(ctx: Context<Env>) {
+            ctx.log.info('Handling');
+            return { requestId: ctx.requestId, traceId: ctx.trace.traceId };
+        }
+    }
+
+    class FailingHandler extends RouteHandler<Env> {
+        async get(): Promise<any> {
+            throw new HttpError(409, 'Conflict');
+        }
+    }
+
+    const builtRouter = new WorkerRouter<Env>('test')
+        .defineRouteHandler('/echo', EchoHandler)
+        .defineRouteHandler('/fail', FailingHandler)
+        .build();
+
+    it('should adopt the request ID and echo it in a response header', async () => {
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/echo', { headers: { 'X-Request-Id': 'req-123' } }),
+            env
+        );
+
+        expect(response.headers.get('X-Request-Id')).toBe('req-123');
+        expect(await response.json()).toEqual({
+            requestId: 'req-123',
+            traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+        });
+    });
+
+    it('should continue the trace of an incoming traceparent header', async () => {
+        const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/echo', {
+                headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+            }),
+            env
+        );
+
+        expect(await response.json()).toEqual({ requestId: traceId, traceId });
+        expect(response.headers.get('X-Request-Id')).toBe(traceId);
+    });
+
+    it('should include the request ID in error bodies and 404s', async () => {
+        const headers = { 'X-Request-Id': 'req-123' };
+        const failed = await builtRouter.fetch(
+            new Request('https://example.com/fail', { headers }),
+            env
+        );
+        const missing = await builtRouter.fetch(
+            new Request('https://example.com/missing', { headers }),
+            env
+        );
+
+        expect(await failed.json()).toEqual({ error: 'Conflict', requestId: 'req-123' });
+        expect(failed.headers.get('X-Request-Id')).toBe('req-123');
+        expect(await missing.json()).toEqual({ error: 'Not found', requestId: 'req-123' });
+        expect(missing.headers.get('X-Request-Id')).toBe('req-123');
+    });
+
+    it('should add the request ID to every log line', async () => {
+        const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+        await builtRouter.fetch(
+            new Request('https://example.com/echo', { headers: { 'X-Request-Id': 'req-123' } }),
+            { LOG_LEVEL: 'info' }
+        );
+        const lines = info.mock.calls.map(([line]) => String(line));
+        vi.restoreAllMocks();
+
+        expect(lines).toEqual([
+            '[test] Handling {"requestId":"req-123"}',
+            expect.stringMatching(/^\[test\] Request completed \{"requestId":"req-123",/),
+        ]);
+    });
+
+    it('should give handlers the request logger as this.log', async () => {
+        class EchoHandler extends RouteHandler<Env> {
+            async get(ctx: Context<Env>) {
+                const delay = Number(new URL(ctx.request.url).searchParams.get('delay'));
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                this.log.info('From handler');
+                return {};
+            }
+        }
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/echo', EchoHandler);
+        const builtRouter = router.build();
+        const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+        // Interleaved requests each log with their own request ID
+        await Promise.all(
+            [
+                ['req-1', 10],
+                ['req-2', 0],
+            ].map(([id, delay]) =>
+                builtRouter.fetch(
+                    new Request(`https://example.com/echo?delay=${delay}`, {
+                        headers: { 'X-Request-Id': String(id) },
+                    }),
+                    { LOG_LEVEL: 'info' }
+                )
+            )
+        );
+        const lines = info.mock.calls
+            .map(([line]) => String(line))
+            .filter((line) => line.includes('From handler'));
+        vi.restoreAllMocks();
+
+        expect(lines).toEqual([
+            '[test] From handler {"requestId":"req-2"}',
+            '[test] From handler {"requestId":"req-1"}',
+        ]);
+    });
+
+    it('should copy responses with immutable headers to set the header', async () => {
+        const upstream = await fetch('data:text/plain,proxied');
+        const router = new WorkerRouter<Env>('test');
+        router.route('/proxy').get(async () => upstream);
+
+        const response = await router.build().fetch(new Request('https://example.com/proxy'), env);
+
+        expect(await response.text()).toBe('proxied');
+        expect(response.headers.get('X-Request-Id')).toEqual(expect.any(String));
+    });
+});
+
+describe('Execution context and after-response tasks', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    const createExecutionContext = () => {
+        const waitUntil: Promise<unknown>[] = [];
+        const executionContext = {
+            waitUntil: vi.fn((promise: Promise<unknown>) => waitUntil.push(promise)),
+            passThroughOnException: vi.fn(),
+            props: {},
+        } as unknown as ExecutionContext;
+        return { executionContext, waitUntil };
+    };
+
+    it('should expose the execution context to handlers', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router.route('/proxy').get(async (ctx) => {
+            ctx.executionContext?.passThroughOnException();
+            return { ok: true };
+        });
+        const { executionContext } = createExecutionContext();
+
+        await router.build().fetch(new Request('https://example.com/proxy'), env, executionContext);
+
+        expect(executionContext.passThroughOnException).toHaveBeenCalled();
+    });
+
+    it('should run after-response tasks in order with waitUntil', async () => {
+        const events: string[] = [];
+        const router = new WorkerRouter<Env>('test');
+        router.route('/items').post(async (ctx) => {
+            ctx.after(async () => {
+                events.push('first task');
+            });
+            ctx.after(() => events.push('second task'));
+            events.push('handler');
+            return { created: true };
+        });
+        const { executionContext, waitUntil } = createExecutionContext();
+
+        const response = await router
+            .build()
+            .fetch(
+                new Request('https://example.com/items', { method: 'POST' }),
+                env,
+                executionContext
+            );
+        events.push('response');
+
+        expect(response.status).toBe(200);
+        expect(waitUntil).toHaveLength(1);
+        await Promise.all(waitUntil);
+        expect(events).toEqual(['handler', 'response', 'first task', 'second task']);
+    });
+
+    it('should log task errors and keep running later tasks', async () => {
+        const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const router = new WorkerRouter<Env>('test');
+        let ranLaterTask = false;
+        router.route('/items').get(async (ctx) => {
+            ctx.after(() => {
+                throw new Error('analytics down');
+            });
+            ctx.after(() => {
+                ranLaterTask = true;
+            });
+            return {};
+        });
+        const { executionContext, waitUntil } = createExecutionContext();
+
+        await router
+            .build()
+            .fetch(
+                new Request('https://example.com/items'),
+                { LOG_LEVEL: 'error' },
+                executionContext
+            );
+        await Promise.all(waitUntil);
+        const lines = log.mock.calls.map(([line]) => String(line));
+        vi.restoreAllMocks();
+
+        expect(ranLaterTask).toBe(true);
+        expect(lines).toEqual([expect.stringContaining('After-response task failed')]);
+        expect(lines[0]).toContain('Error: analytics down');
+    });
+
+    it('should run tasks scheduled by middleware when the handler fails', async () => {
+        const task = vi.fn();
+        const router = new WorkerRouter<Env>('test').use(async (ctx, next) => {
+            ctx.after(task);
+            return next();
+        });
+        router.route('/items').get(async () => {
+            throw new HttpError(409, 'Conflict');
+        });
+        const { executionContext, waitUntil } = createExecutionContext();
+
+        const response = await router
+            .build()
+            .fetch(new Request('https://example.com/items'), env, executionContext);
+        await Promise.all(waitUntil);
+
+        expect(response.status).toBe(409);
+        expect(task).toHaveBeenCalledOnce();
+    });
+});
+
+describe('Body helpers', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    it('should let middleware and handlers both read the body', async () => {
+        const router = new WorkerRouter<Env>('test').use(async (ctx, next) => {
+            const { action } = await ctx.json<{ action: string }>();
+            ctx.data.action = action;
+            return next();
+        });
+        router.route('/actions').post(async (ctx) => ({
+            seen: ctx.data.action,
+            body: await ctx.json(),
+        }));
+
+        const response = await router.build().fetch(
+            new Request('https://example.com/actions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{"action":"archive"}',
+            }),
+            env
+        );
+
+        expect(await response.json()).toEqual({ seen: 'archive', body: { action: 'archive' } });
+    });
+
+    it('should respond 400 to malformed bodies and 415 to unsupported types', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router.route('/items').post(async (ctx) => ctx.body());
+        const builtRouter = router.build();
+        const post = (body: string, contentType: string) =>
+            builtRouter.fetch(
+                new Request('https://example.com/items', {
+                    method: 'POST',
+                    headers: { 'Content-Type': contentType },
+                    body,
+                }),
+                env
+            );
+
+        const malformed = await post('{"name":', 'application/json');
+        const unsupported = await post('<item/>', 'application/xml');
+
+        expect(malformed.status).toBe(400);
+        expect(await malformed.json()).toEqual({
+            error: 'Malformed JSON body',
+            requestId: expect.any(String),
+        });
+        expect(unsupported.status).toBe(415);
+    });
+});
+
+describe('Schema validation', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+
+    class UsersHandler extends RouteHandler<Env, any> {
+        static schemas = {
+            params: object({ orgId: number }),
+            query: object({ limit: optional(number) }),
+            POST: {
+                body: object({ name: string }),
+                responses: { 201: object({ id: number, name: string }) },
+            },
+        } satisfies RouteSchemas;
+
+        async get(ctx: ValidatedContext<Context<Env>, typeof UsersHandler.schemas, 'GET'>) {
+            expectTypeOf(ctx.params.orgId).toEqualTypeOf<number>();
+            expectTypeOf(ctx.query.limit).toEqualTypeOf<number | undefined>();
+            return { orgId: ctx.params.orgId, limit: ctx.query.limit ?? 20 };
+        }
+
+        async post(ctx: ValidatedContext<Context<Env>, typeof UsersHandler.schemas, 'POST'>) {
+            const body = await ctx.json();
+            expectTypeOf(body).toEqualTypeOf<{ name: string }>();
+            ctx.response.status = 201;
+            return { id: 1, name: body.name, passwordHash: 'secret' };
+        }
+    }
+
+    const builtRouter = new WorkerRouter<Env>('test')
+        .defineRouteHandler('/orgs/:orgId/users', UsersHandler)
+        .build();
+
+    const post = (url: string, body: string) =>
+        builtRouter.fetch(
+            new Request(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+            }),
+            env
+        );
+
+    it('should pass validated params and query to the handler', async () => {
+        const response = await builtRouter.fetch(
+            new Request('https://example.com/orgs/7/users?limit=5'),
+            env
+        );
+
+        expect(await response.json()).toEqual({ orgId: 7, limit: 5 });
+    });
+
+    it('should validate the body of methods with a body schema', async () => {
+        const response = await post('https://example.com/orgs/7/users', '{"name":"Ada"}');
+
+        expect(response.status).toBe(201);
+        expect(await response.json()).toEqual({ id: 1, name: 'Ada' });
+    });
+
+    it('should respond 400 with the issues of invalid requests', async () => {
+        const response = await post('https://example.com/orgs/x/users?limit=all', '{}');
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: 'Validation failed',
+            issues: [
+                { location: 'params', path: ['orgId'], message: 'Expected a number' },
+                { location: 'query', path: ['limit'], message: 'Expected a number' },
+                { location: 'body', path: ['name'], message: 'Expected a string' },
+            ],
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should validate HEAD requests with the GET schemas', async () => {
+        const get = vi.fn(async () => ({ ok: true }));
+
+        class ItemsHandler extends RouteHandler<Env> {
+            static schemas = { GET: { query: object({ limit: number }) } } satisfies RouteSchemas;
+
+            async get() {
+                return get();
+            }
+        }
+
+        const builtRouter = new WorkerRouter<Env>('test')
+            .defineRouteHandler('/items', ItemsHandler)
+            .build();
+
+        const head = (url: string) => builtRouter.fetch(new Request(url, { method: 'HEAD' }), env);
+        const valid = await head('https://example.com/items?limit=5');
+        const invalid = await head('https://example.com/items?limit=all');
+
+        expect(valid.status).toBe(200);
+        expect(invalid.status).toBe(400);
+        expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respond 500 when a response does not match its schema', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router
+            .route('/items', { schemas: { responses: { 200: object({ id: number }) } } })
+            .get(async () => ({ id: 'one' }));
+
+        const response = await router.build().fetch(new Request('https://example.com/items'), env);
+
+        expect(response.status).toBe(500);
+    });
+
+    it('should type function route contexts from their schemas', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router
+            .route('/items/:id', { schemas: { params: object({ id: number }) } })
+            .get(async (ctx) => {
+                expectTypeOf(ctx.params.id).toEqualTypeOf<number>();
+                return { id: ctx.params.id };
+            });
+
+        const response = await router
+            .build()
+            .fetch(new Request('https://example.com/items/42'), env);
+
+        expect(await response.json()).toEqual({ id: 42 });
+    });
+
+    it('should reject invalid method names in schemas', () => {
+        class InvalidHandler extends RouteHandler<Env> {
+            static schemas = { 'NOT A METHOD': {} } as RouteSchemas;
+            async get() {
+                return {};
+            }
+        }
+
+        const router = new WorkerRouter<Env>('test').defineRouteHandler('/x', InvalidHandler);
+
+        expect(() => router.build()).toThrow(
+            "Invalid HTTP method name 'NOT A METHOD' in route schemas"
+        );
+    });
+});
+
+describe('Body size limits', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+    const chunked = (...chunks: string[]) =>
+        new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+                controller.close();
+            },
+        });
+    const post = (router: WorkerRouter<Env>, path: string, init: RequestInit) =>
+        router.build().fetch(
+            new Request(`https://example.com${path}`, {
+                method: 'POST',
+                duplex: 'half',
+                ...init,
+            } as RequestInit),
+            env
+        );
+
+    it('should respond 413 to a declared length over the limit before the handler runs', async () => {
+        const handler = vi.fn(async () => ({ ok: true }));
+        const router = new WorkerRouter<Env>('test', { maxBodySize: 8 });
+        router.route('/upload').post(handler);
+
+        const response = await post(router, '/upload', {
+            headers: { 'Content-Length': '9' },
+            body: '123456789',
+        });
+
+        expect(response.status).toBe(413);
+        expect(await response.json()).toEqual({
+            error: 'Payload Too Large',
+            maxBodySize: 8,
+            requestId: expect.any(String),
+        });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should respond 413 when a streamed body exceeds the limit', async () => {
+        const router = new WorkerRouter<Env>('test', { maxBodySize: 8 });
+        router.route('/upload').post(async (ctx) => ({ length: (await ctx.text()).length }));
+
+        const small = await post(router, '/upload', { body: chunked('1234', '5678') });
+        const large = await post(router, '/upload', { body: chunked('1234', '56789') });
+
+        expect(await small.json()).toEqual({ length: 8 });
+        expect(large.status).toBe(413);
+    });
+
+    it('should keep the params and query of the size-limited request', async () => {
+        const router = new WorkerRouter<Env>('test', { maxBodySize: 8 });
+        router.route('/upload/:id').post(async (ctx) => {
+            const request = ctx.request as IRequest;
+            return { params: request.params, query: request.query };
+        });
+
+        const response = await post(router, '/upload/7?tag=a', { body: chunked('1234') });
+
+        expect(await response.json()).toEqual({ params: { id: '7' }, query: { tag: 'a' } });
+    });
+
+    it('should let groups and handlers override the router limit', async () => {
+        class UploadHandler extends RouteHandler<Env> {
+            static maxBodySize = 16;
+            async post(ctx: Context<Env>) {
+                return { length: (await ctx.text()).length };
+            }
+        }
+        const router = new WorkerRouter<Env>('test', { maxBodySize: 4 });
+        router.defineRouteHandler('/upload', UploadHandler);
+        router.group('/api', { maxBodySize: 8 }, (api) => {
+            api.route('/small').post(async (ctx) => ({ length: (await ctx.text()).length }));
+            api.route('/none', { maxBodySize: 2 }).post(async () => ({ ok: true }));
+        });
+
+        const upload = await post(router, '/upload', { body: chunked('0123456789') });
+        const grouped = await post(router, '/api/small', { body: chunked('012345') });
+        const tooLarge = await post(router, '/api/small', { body: chunked('0123456789') });
+        const route = await post(router, '/api/none', {
+            headers: { 'Content-Length': '3' },
+            body: '123',
+        });
+
+        expect(await upload.json()).toEqual({ length: 10 });
+        expect(await grouped.json()).toEqual({ length: 6 });
+        expect(tooLarge.status).toBe(413);
+        expect(route.status).toBe(413);
+    });
+});
+
+describe('Multipart uploads', () => {
+    it('should stream multipart parts into R2', async () => {
+        const bucket = new MemoryR2Bucket();
+        const env = { LOG_LEVEL: 'fatal', UPLOADS: bucket.asBinding() };
+        const router = new WorkerRouter<typeof env>('test');
+        router.route('/upload').post(async (ctx) => {
+            const stored: Record<string, number> = {};
+            for await (const part of ctx.multipart({ maxFileSize: 1024 })) {
+                if (part.filename) {
+                    stored[part.name] = (
+                        await putPartToR2(ctx.env.UPLOADS, part.filename, part)
+                    ).size;
+                }
+            }
+            return stored;
+        });
+        const data = new FormData();
+        data.append('caption', 'Beach');
+        data.append('photo', new Blob(['png bytes'], { type: 'image/png' }), 'beach.png');
+        data.append('notes', new Blob(['x'.repeat(2048)]), 'notes.txt');
+
+        const response = await router
+            .build()
+            .fetch(new Request('https://example.com/upload', { method: 'POST', body: data }), env);
+
+        expect(response.status).toBe(413);
+        expect(await response.json()).toEqual({
+            error: 'File Too Large',
+            field: 'notes',
+            maxFileSize: 1024,
+            requestId: expect.any(String),
+        });
+        expect(await (await bucket.get('beach.png'))!.text()).toBe('png bytes');
+        expect(bucket.objects.get('beach.png')!.httpMetadata).toEqual({ contentType: 'image/png' });
+    });
+});
+
+describe('Content negotiation', () => {
+    const env = { LOG_LEVEL: 'fatal' };
+    const rows = [
+        { id: 1, name: 'Ada' },
+        { id: 2, name: 'Grace' },
+    ];
+    const get = (router: WorkerRouter<Env>, path: string, accept?: string) =>
+        router.build().fetch(
+            new Request(`https://example.com${path}`, {
+                headers: accept ? { Accept: accept } : {},
+            }),
+            env
+        );
+
+    it('should send JSON whatever the Accept header without serializers', async () => {
+        const router = new WorkerRouter<Env>('test');
+        router.route('/users').get(async () => rows);
+
+        const html = await get(router, '/users', 'text/html');
+        const vendor = await get(router, '/users', 'application/vnd.api+json');
+
+        expect(html.status).toBe(200);
+        expect(html.headers.get('Content-Type')).toBe('application/json');
+        expect(html.headers.get('Vary')).toBeNull();
+        expect(await html.json()).toEqual(rows);
+        expect(vendor.status).toBe(200);
+    });
+
+    it('should serialize handler data for the Accept header', async () => {
+        const router = new WorkerRouter<Env>('test', { serializers: builtinSerializers });
+        router.route('/users').get(async () => rows);
+
+        const json = await get(router, '/users');
+        const csv = await get(router, '/users', 'text/csv, application/json;q=0.5');
+        const ndjson = await get(router, '/users', 'application/x-ndjson');
+
+        expect(json.headers.get('Content-Type')).toBe('application/json');
+        expect(json.headers.get('Vary')).toBe('Accept');
+        expect(await json.json()).toEqual(rows);
+        expect(csv.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+        expect(await csv.text()).toBe('id,name\r\n1,Ada\r\n2,Grace\r\n');
+        expect(await ndjson.text()).toBe('{"id":1,"name":"Ada"}\n{"id":2,"name":"Grace"}\n');
+    });
+
+    it('should respond 406 when no serializer is acceptable', async () => {
+        const handler = vi.fn(async () => rows);
+        const router = new WorkerRouter<Env>('test', { serializers: builtinSerializers });
+        router.route('/users').get(handler);
+
+        const response = await get(router, '/users', 'image/png');
+
+        expect(response.status).toBe(406);
+        expect(handler).not.toHaveBeenCalled();
+        expect(await response.json()).toEqual({
+            error: 'Not Acceptable',
+            available: [
+                'application/json',
+                'application/x-ndjson',
+                'application/cbor',
+                'application/msgpack',
+                'text/plain',
+                'text/csv',
+            ],
+            requestId: expect.any(String),
+        });
+    });
+
+    it('should reject unacceptable requests before middleware and the handler run', async () => {
+        const middleware = vi.fn(async (_ctx: Context<Env>, next: () => Promise<Response>) =>
+            next()
+        );
+        const handler = vi.fn(async () => ({ created: true }));
+        const router = new WorkerRouter<Env>('test', { serializers: builtinSerializers }).use(
+            middleware
+        );
+        router.route('/users').post(handler);
+
+        const response = await router.build().fetch(
+            new Request('https://example.com/users', {
+                method: 'POST',
+                headers: { Accept: 'text/html' },
+                body: '{}',
+            }),
+            env
+        );
+
+        expect(response.status).toBe(406);
+        expect(middleware).not.toHaveBeenCalled();
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let groups, handlers and routes replace the serializers', async () => {
+        class ReportHandler extends RouteHandler<Env> {
+            static serializers = { 'text/csv': csvSerializer };
+            async get() {
+                return rows;
+            }
+        }
+        const router = new WorkerRouter<Env>('test', {
+            serializers: { 'application/json': jsonSerializer },
+        });
+        router.defineRouteHandler('/report', ReportHandler);
+        router.route('/text', { serializers: { 'text/plain': textSerializer } }).get(() => 'hi');
+        router.group('/api', { serializers: { 'application/cbor': cborSerializer } }, (api) => {
+            api.route('/one').get(async () => 1);
+        });
+        router.route('/users').get(async () => rows);
+
+        const report = await get(router, '/report');
+        const text = await get(router, '/text', 'text/*');
+        const cbor = await get(router, '/api/one');
+        const users = await get(router, '/users', 'text/csv');
+
+        expect(await report.text()).toBe('id,name\r\n1,Ada\r\n2,Grace\r\n');
+        expect(report.headers.get('Vary')).toBeNull();
+        expect(await text.text()).toBe('hi');
+        expect(new Uint8Array(await cbor.arrayBuffer())).toEqual(new Uint8Array([1]));
+        expect(users.status).toBe(406);
+    });
+
+    it('should report the length of negotiated bodies to HEAD requests', async () => {
+        const router = new WorkerRouter<Env>('test', { serializers: builtinSerializers });
+        router.route('/users').get(async () => rows);
+
+        const response = await router.build().fetch(
+            new Request('https://example.com/users', {
+                method: 'HEAD',
+                headers: { Accept: 'application/msgpack' },
+            }),
+            env
+        );
+
+        expect(response.headers.get('Content-Type')).toBe('application/msgpack');
+        expect(response.headers.get('Content-Length')).toBe(
+            String((msgpackSerializer(rows) as Uint8Array).byteLength)
+        );
+    });
+});
@@ -23,5 +23,12 @@ export default defineConfig({
             },
         },
         testTimeout: 10000,
+        // Type-check the unit tests too, so type-level assertions (expectTypeOf,
+        // @ts-expect-error) fail the run instead of passing silently
+        typecheck: {
+            enabled: true,
+            tsconfig: './tests/tsconfig.json',
+            include: ['tests/unit/**/*.test.ts'],
+        },
     },
 });